@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  aggregateProbabilities,
+  dispersionConfidence,
+} from '../utils/aggregation';
+
+describe('aggregateProbabilities', () => {
+  const samples = [10, 60, 65, 70, 95];
+
+  it('should take the mean', () => {
+    expect(aggregateProbabilities(samples, 'mean')).toBe(60);
+  });
+
+  it('should take the median of odd and even sample counts', () => {
+    expect(aggregateProbabilities(samples, 'median')).toBe(65);
+    expect(aggregateProbabilities([10, 60, 70, 95], 'median')).toBe(65);
+  });
+
+  it('should drop the extremes for trimmed-mean', () => {
+    expect(aggregateProbabilities(samples, 'trimmed-mean')).toBe(65);
+    expect(
+      aggregateProbabilities(samples, 'trimmed-mean', { trimFraction: 0 })
+    ).toBe(60);
+  });
+
+  it('should clamp the trim fraction so samples always survive', () => {
+    expect(
+      aggregateProbabilities([20, 40], 'trimmed-mean', { trimFraction: 0.5 })
+    ).toBe(30);
+    expect(
+      aggregateProbabilities([10, 20, 90], 'trimmed-mean', { trimFraction: 2 })
+    ).toBe(20);
+    expect(
+      aggregateProbabilities(samples, 'trimmed-mean', { trimFraction: -1 })
+    ).toBe(60);
+  });
+
+  it('should pool in log-odds space', () => {
+    // Odds of 1:4 and 4:1 average to even odds
+    expect(aggregateProbabilities([20, 80], 'log-odds')).toBeCloseTo(50, 10);
+    // and agreeing samples pool further out than their arithmetic mean
+    expect(aggregateProbabilities([90, 99], 'log-odds')).toBeGreaterThan(94.5);
+  });
+
+  it('should keep log-odds finite for certain samples', () => {
+    const pooled = aggregateProbabilities([0, 100, 100], 'log-odds');
+    expect(Number.isFinite(pooled)).toBe(true);
+    expect(pooled).toBeGreaterThan(50);
+  });
+
+  it('should reject empty input and unknown methods', () => {
+    expect(() => aggregateProbabilities([], 'mean')).toThrow(/empty/);
+    expect(() => aggregateProbabilities([50], 'mode' as any)).toThrow(
+      /Unknown aggregation method "mode"/
+    );
+  });
+});
+
+describe('dispersionConfidence', () => {
+  it('should be 1 for identical samples and 0 for maximal disagreement', () => {
+    expect(dispersionConfidence([70, 70, 70])).toBe(1);
+    expect(dispersionConfidence([0, 100])).toBe(0);
+  });
+
+  it('should fall as samples spread out', () => {
+    expect(dispersionConfidence([60, 70])).toBeCloseTo(0.9, 10);
+    expect(dispersionConfidence([40, 80])).toBeCloseTo(0.6, 10);
+  });
+
+  it('should give a single sample no confidence', () => {
+    expect(dispersionConfidence([70])).toBe(0);
+  });
+});
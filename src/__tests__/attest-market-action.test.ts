@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { attestMarketAction } from '../actions/attestMarket';
+import { AttestationService } from '../services/attestationService';
+import { SapienceClient } from '../services/sapienceClient';
+
+const market = {
+  id: '7',
+  marketId: '7',
+  marketAddress: '0x1111111111111111111111111111111111111111',
+  question: 'Will it rain tomorrow?',
+  currentPrice: 50,
+  volume: 1000,
+  endTimestamp: null,
+};
+
+const record = {
+  marketId: '7',
+  marketAddress: market.marketAddress,
+  probability: 65,
+  confidence: 0.8,
+  reasoning: 'front moving in',
+  calldata: '0xabcdef',
+  txHash: null,
+  txStatus: null,
+  txError: null,
+};
+
+describe('ATTEST_MARKET action', () => {
+  let service: any;
+  const runtime = {
+    character: { settings: {} },
+    getSetting: () => null,
+  } as unknown as IAgentRuntime;
+
+  beforeEach(() => {
+    service = {
+      attestMarketById: mock(async () => record),
+      isDryRun: mock(() => true),
+      submitTransaction: mock(),
+    };
+    spyOn(AttestationService, 'getInstance').mockReturnValue(service);
+    spyOn(SapienceClient, 'fromRuntime').mockReturnValue({
+      listActiveMarkets: mock(async () => [market]),
+    } as any);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  async function send(text: string) {
+    const callback = mock(async () => []);
+    await attestMarketAction.handler(
+      runtime,
+      { content: { text } } as Memory,
+      undefined,
+      undefined,
+      callback,
+    );
+    return callback.mock.calls[0][0] as any;
+  }
+
+  it('should attest through the service pipeline and respect dry run', async () => {
+    const reply = await send('predict market 7');
+
+    expect(service.attestMarketById).toHaveBeenCalledWith('7');
+    expect(service.submitTransaction).not.toHaveBeenCalled();
+    expect(reply.text).toContain('65% YES');
+    expect(reply.text).toContain('Dry run');
+    expect(reply.content.attestation).toEqual(record);
+  });
+
+  it('should report the transaction of a live attestation', async () => {
+    const txHash = `0x${'ab'.repeat(32)}`;
+    service.isDryRun.mockReturnValue(false);
+    service.attestMarketById.mockResolvedValue({ ...record, txHash, txStatus: 'confirmed' });
+
+    const reply = await send('predict market 7');
+
+    expect(reply.text).toContain(`${txHash} (confirmed)`);
+  });
+
+  it('should say so when no attestation was made', async () => {
+    service.attestMarketById.mockResolvedValue(null);
+
+    const reply = await send('predict market 7');
+
+    expect(reply.text).toContain('No attestation made for market #7');
+  });
+});
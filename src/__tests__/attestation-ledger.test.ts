@@ -0,0 +1,188 @@
+import { describe, expect, it, mock } from 'bun:test';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { AttestationLedger } from '../services/attestationLedger';
+
+// Minimal runtime backed by an in-memory memories table
+function createLedgerRuntime() {
+  const rows: Array<Memory & { tableName: string }> = [];
+
+  const runtime = {
+    agentId: '00000000-0000-0000-0000-000000000001',
+    ensureRoomExists: mock().mockResolvedValue(undefined),
+    createMemory: mock(async (memory: Memory, tableName: string) => {
+      const id = `00000000-0000-0000-0000-${String(rows.length + 1).padStart(12, '0')}`;
+      rows.push({ ...memory, id: id as Memory['id'], tableName });
+      return id;
+    }),
+    getMemories: mock(
+      async (params: { tableName: string; roomId?: string; count?: number }) =>
+        rows
+          .filter(
+            row =>
+              row.tableName === params.tableName && row.roomId === params.roomId
+          )
+          .sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0))
+          .slice(0, params.count ?? rows.length)
+    ),
+    getMemoryById: mock(
+      async (id: string) => rows.find(row => row.id === id) ?? null
+    ),
+    updateMemory: mock(async (update: Partial<Memory> & { id: string }) => {
+      const row = rows.find(r => r.id === update.id);
+      if (!row) return false;
+      Object.assign(row, update);
+      return true;
+    }),
+    countMemories: mock(
+      async (roomId: string, _unique: boolean, tableName: string) =>
+        rows.filter(row => row.roomId === roomId && row.tableName === tableName)
+          .length
+    ),
+  } as unknown as IAgentRuntime;
+
+  return { runtime, rows };
+}
+
+const baseRecord = {
+  marketId: '42',
+  marketAddress: '0x1111111111111111111111111111111111111111',
+  probability: 65,
+  confidence: 0.7,
+  reasoning: 'market looks underpriced',
+  calldata: '0xdeadbeef',
+  txHash: null,
+  txStatus: null,
+  txError: null,
+  attestationUid: null,
+  blockNumber: null,
+  batchIndex: null,
+  gasCost: null,
+  cycleId: 'cycle-1',
+  promptVersion: 'default-v1',
+  sources: [
+    {
+      title: 'Polls tighten',
+      url: 'https://example.com/polls',
+      source: 'Wire',
+    },
+  ],
+  adjustment: {
+    modelProbability: 70,
+    marketPrice: 50,
+    marketWeight: 0.25,
+    extremizeFactor: 1,
+    minProbability: 1,
+    maxProbability: 99,
+  },
+};
+
+describe('AttestationLedger', () => {
+  it('should persist records and read them back newest first', async () => {
+    const { runtime } = createLedgerRuntime();
+    const ledger = new AttestationLedger(runtime);
+
+    await ledger.record({ ...baseRecord, timestamp: 1000 });
+    await ledger.record({ ...baseRecord, marketId: '43', timestamp: 2000 });
+
+    const records = await ledger.list();
+    expect(records.map(r => r.marketId)).toEqual(['43', '42']);
+    expect(records[1]).toMatchObject({ ...baseRecord, timestamp: 1000 });
+    expect(records[1].id).toBeDefined();
+    expect(await ledger.count()).toBe(2);
+    expect((await ledger.latest())?.marketId).toBe('43');
+  });
+
+  it('should survive a new ledger instance on the same database', async () => {
+    const { runtime } = createLedgerRuntime();
+    await new AttestationLedger(runtime).record(baseRecord);
+
+    const reopened = new AttestationLedger(runtime);
+    expect(await reopened.count()).toBe(1);
+    expect((await reopened.latest())?.calldata).toBe('0xdeadbeef');
+  });
+
+  it('should keep separate tables isolated', async () => {
+    const { runtime } = createLedgerRuntime();
+    await new AttestationLedger(runtime).record(baseRecord);
+
+    const other = new AttestationLedger(runtime, 'other_table');
+    expect(await other.count()).toBe(0);
+    expect(await other.latest()).toBeNull();
+  });
+
+  it('should default fields missing from entries written before they existed', async () => {
+    const { runtime } = createLedgerRuntime();
+    const {
+      promptVersion,
+      sources,
+      adjustment,
+      txStatus,
+      txError,
+      attestationUid,
+      blockNumber,
+      batchIndex,
+      ...legacyRecord
+    } = baseRecord;
+    await new AttestationLedger(runtime).record(legacyRecord as any);
+
+    const [record] = await new AttestationLedger(runtime).list();
+    expect(record.promptVersion).toBeNull();
+    expect(record.sources).toEqual([]);
+    expect(record.adjustment).toBeNull();
+    expect(record.txStatus).toBeNull();
+    expect(record.attestationUid).toBeNull();
+  });
+
+  it('should update a record in place and list pending transactions', async () => {
+    const { runtime } = createLedgerRuntime();
+    const ledger = new AttestationLedger(runtime);
+    const txHash = `0x${'ab'.repeat(32)}`;
+
+    const pending = await ledger.record({
+      ...baseRecord,
+      txHash,
+      txStatus: 'pending',
+    });
+    await ledger.record({ ...baseRecord, marketId: '43', txStatus: 'failed' });
+    expect((await ledger.pending()).map(r => r.id)).toEqual([pending.id]);
+
+    const updated = await ledger.update(pending.id!, {
+      txStatus: 'confirmed',
+      attestationUid: `0x${'cd'.repeat(32)}`,
+      blockNumber: 12,
+    });
+    expect(updated).toMatchObject({ id: pending.id, txStatus: 'confirmed' });
+
+    const records = await new AttestationLedger(runtime).list();
+    expect(records.find(r => r.id === pending.id)).toMatchObject({
+      ...baseRecord,
+      txHash,
+      txStatus: 'confirmed',
+      attestationUid: `0x${'cd'.repeat(32)}`,
+      blockNumber: 12,
+    });
+    expect(await ledger.pending()).toEqual([]);
+    expect(await ledger.count()).toBe(2);
+  });
+
+  it('should return null when updating a record that does not exist', async () => {
+    const { runtime } = createLedgerRuntime();
+    expect(
+      await new AttestationLedger(runtime).update(
+        '00000000-0000-0000-0000-000000000099',
+        { txStatus: 'confirmed' }
+      )
+    ).toBeNull();
+  });
+
+  it('should only create the ledger room once', async () => {
+    const { runtime } = createLedgerRuntime();
+    const ledger = new AttestationLedger(runtime);
+
+    await ledger.record(baseRecord);
+    await ledger.list();
+    await ledger.count();
+
+    expect(runtime.ensureRoomExists).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { AttestationService } from '../services/attestationService';
+
+const KEY_VARS = ['EVM_PRIVATE_KEY', 'PRIVATE_KEY', 'WALLET_PRIVATE_KEY'];
+
+// Runtime with a service registry and an empty ledger
+function createRuntime(
+  agentId: string = '00000000-0000-0000-0000-000000000001'
+) {
+  const services = new Map<string, unknown>();
+  return {
+    agentId,
+    character: { name: 'Sage', settings: {} },
+    actions: [],
+    getService: (serviceType: string) => services.get(serviceType) ?? null,
+    registerService: (serviceType: string, service: unknown) => {
+      services.set(serviceType, service);
+    },
+    ensureRoomExists: mock(async () => {}),
+    getMemories: mock(async () => []),
+    countMemories: mock(async () => 0),
+  } as unknown as IAgentRuntime & {
+    registerService: (serviceType: string, service: unknown) => void;
+  };
+}
+
+describe('AttestationService lifecycle', () => {
+  const originalKeys = KEY_VARS.map(name => process.env[name]);
+
+  beforeEach(() => {
+    // No wallet, so nothing reaches a real RPC
+    KEY_VARS.forEach(name => delete process.env[name]);
+  });
+
+  afterEach(() => {
+    KEY_VARS.forEach((name, i) => {
+      if (originalKeys[i] !== undefined) {
+        process.env[name] = originalKeys[i];
+      }
+    });
+  });
+
+  it('should start the service without starting the loop', async () => {
+    const service = await AttestationService.start(createRuntime());
+
+    expect(service).toBeInstanceOf(AttestationService);
+    expect(AttestationService.serviceType).toBe('attestation');
+    expect((await service.getStatus()).isRunning).toBe(false);
+  });
+
+  it('should give each agent its own instance', async () => {
+    const first = createRuntime('00000000-0000-0000-0000-000000000001');
+    const second = createRuntime('00000000-0000-0000-0000-000000000002');
+
+    first.registerService(
+      AttestationService.serviceType,
+      await AttestationService.start(first)
+    );
+    second.registerService(
+      AttestationService.serviceType,
+      await AttestationService.start(second)
+    );
+
+    const firstService = AttestationService.getInstance(first);
+    const secondService = AttestationService.getInstance(second);
+    expect(firstService).toBeInstanceOf(AttestationService);
+    expect(secondService).toBeInstanceOf(AttestationService);
+    expect(firstService).not.toBe(secondService);
+  });
+
+  it('should stop the autonomous loop when the service stops', async () => {
+    const runtime = createRuntime();
+    const service = await AttestationService.start(runtime);
+    runtime.registerService(AttestationService.serviceType, service);
+
+    // Without the Sapience service the first cycle bails out, but the loop is running
+    await service.startAutonomous();
+    expect((await service.getStatus()).isRunning).toBe(true);
+
+    await AttestationService.stop(runtime);
+    expect((await service.getStatus()).isRunning).toBe(false);
+  });
+
+  it('should throw when stopping a service that was never registered', async () => {
+    await expect(AttestationService.stop(createRuntime())).rejects.toThrow(
+      'Attestation service not found'
+    );
+  });
+});
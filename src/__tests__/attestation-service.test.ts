@@ -0,0 +1,819 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from 'bun:test';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { parseEther } from 'viem';
+import {
+  AttestationService,
+  MarketNotFoundError,
+} from '../services/attestationService';
+import { SapienceClient } from '../services/sapienceClient';
+import { SpendingGuard } from '../services/spendingGuard';
+import { probabilityToSqrtPriceX96 } from '../utils/sqrtPrice';
+
+// Well-known development key (first Anvil/Hardhat account)
+const TEST_PRIVATE_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const HOUR = 60 * 60 * 1000;
+
+const market = {
+  id: '1',
+  marketId: '1',
+  marketAddress: '0x1111111111111111111111111111111111111111',
+  question: 'Will it rain tomorrow?',
+  currentPrice: 50,
+  volume: 1000,
+  endTimestamp: null,
+};
+
+// Runtime with an in-memory ledger whose model always predicts 70%
+function createRuntime() {
+  const rows: Memory[] = [];
+  const useModel = mock(async () => ({
+    probability: 70,
+    reasoning: 'front moving in',
+    confidence: 0.8,
+  }));
+  const runtime = {
+    agentId: '00000000-0000-0000-0000-000000000001',
+    character: { name: 'Sage', settings: {} },
+    actions: [],
+    useModel,
+    getService: mock(() => null),
+    ensureRoomExists: mock().mockResolvedValue(undefined),
+    createMemory: mock(async (memory: Memory) => {
+      const id = `00000000-0000-0000-0000-${String(rows.length + 1).padStart(12, '0')}`;
+      rows.push({ ...memory, id: id as Memory['id'] });
+      return id;
+    }),
+    getMemories: mock(async () => rows),
+    getMemoryById: mock(async (id: string) => rows.find(r => r.id === id)),
+    updateMemory: mock(async (update: Partial<Memory>) => {
+      Object.assign(rows.find(r => r.id === update.id)!, update);
+      return true;
+    }),
+    countMemories: mock(async () => rows.length),
+  } as unknown as IAgentRuntime;
+  return { runtime, useModel, rows };
+}
+
+describe('AttestationService cycle', () => {
+  const originalKey = process.env.EVM_PRIVATE_KEY;
+
+  beforeEach(() => {
+    process.env.EVM_PRIVATE_KEY = TEST_PRIVATE_KEY;
+  });
+
+  afterEach(() => {
+    process.env.EVM_PRIVATE_KEY = originalKey;
+    mock.restore();
+  });
+
+  function createService(
+    previousAttestationAgeHours: number,
+    markets: (typeof market)[] = [market]
+  ) {
+    const { runtime, useModel, rows } = createRuntime();
+    const service = new AttestationService(runtime);
+    const sapience = {
+      listActiveMarkets: mock(async () => markets),
+      getAttestationsByAddress: mock(async () => [
+        {
+          id: 'att-1',
+          attester: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+          marketAddress: market.marketAddress,
+          marketId: market.marketId,
+          prediction: probabilityToSqrtPriceX96(30).toString(),
+          comment: 'earlier call',
+          createdAt: Date.now() - previousAttestationAgeHours * HOUR,
+        },
+      ]),
+    };
+    spyOn(SapienceClient, 'fromRuntime').mockReturnValue(sapience as any);
+    spyOn(service as any, 'testAttestationRetrieval').mockResolvedValue(
+      undefined
+    );
+    spyOn((service as any).resolutionTracker, 'refreshIfDue').mockResolvedValue(
+      undefined
+    );
+    // No signer unless a test sets one, so nothing reaches a real RPC
+    (service as any).walletSigner = null;
+    const walletClient = {
+      getChainId: mock(async () => 42161),
+      getBalance: mock(async () => parseEther('1')),
+      getTransactionCount: mock(async () => 3),
+    };
+    (service as any).walletHealthClient = walletClient;
+    return { service, useModel, rows, walletClient, sapience };
+  }
+
+  it('should attest a stale market with the prediction made while filtering', async () => {
+    const { service, useModel, rows } = createService(25);
+
+    await (service as any).attestationCycle();
+
+    expect(useModel).toHaveBeenCalledTimes(1);
+    expect(rows).toHaveLength(1);
+    const status = await service.getStatus();
+    expect(status.lastCycleUsage).toMatchObject({
+      calls: 1,
+      predictions: 1,
+      reusedPredictions: 1,
+    });
+    expect(status.lastCycleUsage!.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('should keep manual attestations out of the cycle usage', async () => {
+    const { service, useModel } = createService(25);
+    await service.setDryRun(true);
+    // A manual attestation lands while the cycle is predicting
+    useModel.mockImplementationOnce(async () => {
+      await service.attestMarketById('1');
+      return { probability: 70, reasoning: 'front moving in', confidence: 0.8 };
+    });
+
+    await (service as any).attestationCycle();
+
+    expect(useModel).toHaveBeenCalledTimes(2);
+    expect((await service.getStatus()).lastCycleUsage).toMatchObject({
+      calls: 1,
+      predictions: 1,
+    });
+  });
+
+  it('should record an attestation that could not be submitted as failed', async () => {
+    const { service, rows } = createService(25);
+
+    await (service as any).attestationCycle();
+
+    expect(rows[0].content.attestation).toMatchObject({
+      txHash: null,
+      txStatus: 'failed',
+      txError: expect.stringContaining(
+        'SUBMIT_TRANSACTION action not available'
+      ),
+    });
+  });
+
+  it('should record an action submission without a hash as unconfirmed', async () => {
+    const { service, rows } = createService(25);
+    (service as any).runtime.actions = [
+      { name: 'SUBMIT_TRANSACTION', handler: mock(async () => ({})) },
+    ];
+    const tracker = { track: mock(), check: mock() };
+    (service as any).transactionTracker = tracker;
+
+    await (service as any).attestationCycle();
+
+    expect(rows[0].content.attestation).toMatchObject({
+      txHash: null,
+      txStatus: 'unconfirmed',
+      txError: null,
+    });
+    expect(tracker.track).not.toHaveBeenCalled();
+  });
+
+  it('should submit with the wallet signer instead of the action', async () => {
+    const { service, rows } = createService(25);
+    const txHash = `0x${'ef'.repeat(32)}`;
+    const actionHandler = mock(async () => ({ txHash: '0x1' }));
+    (service as any).runtime.actions = [
+      { name: 'SUBMIT_TRANSACTION', handler: actionHandler },
+    ];
+    const signer = {
+      estimateCost: mock(async () => 1n),
+      send: mock(async () => ({ txHash, gas: 1n, maxFeePerGas: 1n })),
+    };
+    (service as any).walletSigner = signer;
+    (service as any).transactionTracker = {
+      track: mock(async () => ({
+        txStatus: 'pending',
+        attestationUids: [],
+        blockNumber: null,
+        txError: null,
+      })),
+    };
+
+    await (service as any).attestationCycle();
+
+    expect(signer.send).toHaveBeenCalledWith(
+      expect.objectContaining({ chainId: 42161, value: '0' })
+    );
+    expect(actionHandler).not.toHaveBeenCalled();
+    expect(rows[0].content.attestation).toMatchObject({
+      txHash,
+      txStatus: 'pending',
+      gasCost: '1',
+    });
+  });
+
+  it('should submit a cycle in chunked multiAttest transactions', async () => {
+    const markets = ['1', '2', '3'].map(id => ({
+      ...market,
+      id,
+      marketId: id,
+    }));
+    const { service, rows } = createService(25, markets);
+    (service as any).attestationConfig.multiAttest = {
+      enabled: true,
+      chunkSize: 2,
+    };
+    const hashes = [`0x${'01'.repeat(32)}`, `0x${'02'.repeat(32)}`];
+    const signer = {
+      estimateCost: mock(async () => 1n),
+      send: mock(async () => ({
+        txHash: hashes[signer.send.mock.calls.length - 1],
+        gas: 1n,
+        maxFeePerGas: 1n,
+      })),
+    };
+    (service as any).walletSigner = signer;
+    const uids = [`0x${'a1'.repeat(32)}`, `0x${'a2'.repeat(32)}`];
+    (service as any).transactionTracker = {
+      track: mock(async (txHash: string) => ({
+        txStatus: 'confirmed',
+        attestationUids: txHash === hashes[0] ? uids : [`0x${'b1'.repeat(32)}`],
+        blockNumber: 11,
+        txError: null,
+      })),
+    };
+
+    await (service as any).attestationCycle();
+
+    expect(signer.send).toHaveBeenCalledTimes(2);
+    const attestations = rows.map(row => row.content.attestation as any);
+    expect(
+      attestations.map(a => [
+        a.marketId,
+        a.txHash,
+        a.batchIndex,
+        a.attestationUid,
+      ])
+    ).toEqual([
+      // Never-attested markets 2 and 3 are scheduled ahead of market 1
+      ['2', hashes[0], 0, uids[0]],
+      ['3', hashes[0], 1, uids[1]],
+      ['1', hashes[1], null, `0x${'b1'.repeat(32)}`],
+    ]);
+    expect((await service.getStatus()).multiAttestChunkSize).toBe(2);
+  });
+
+  it('should not fall back to the action when that is disabled', async () => {
+    const { service } = createService(25);
+    (service as any).runtime.character.settings = {
+      wallet: { actionFallback: false },
+    };
+    (service as any).runtime.actions = [
+      { name: 'SUBMIT_TRANSACTION', handler: mock() },
+    ];
+
+    await expect(
+      service.submitTransaction({
+        to: '0x0000000000000000000000000000000000000001',
+        data: '0x',
+        value: '0',
+        chainId: 42161,
+      })
+    ).rejects.toThrow(/action fallback is disabled/);
+  });
+
+  it('should record submitted attestations as pending until their receipt arrives', async () => {
+    const { service, rows } = createService(25);
+    const txHash = `0x${'ab'.repeat(32)}`;
+    const uid = `0x${'cd'.repeat(32)}`;
+    (service as any).runtime.actions = [
+      { name: 'SUBMIT_TRANSACTION', handler: mock(async () => ({ txHash })) },
+    ];
+    let statusWhileWaiting: unknown;
+    const tracker = {
+      track: mock(async () => {
+        statusWhileWaiting = rows[0].content.attestation;
+        return {
+          txStatus: 'confirmed',
+          attestationUids: [uid],
+          blockNumber: 7,
+          txError: null,
+          gasCost: 21_000_000_000_000n,
+        };
+      }),
+      check: mock(),
+    };
+    (service as any).transactionTracker = tracker;
+
+    await (service as any).attestationCycle();
+
+    expect(tracker.track).toHaveBeenCalledWith(txHash);
+    expect(statusWhileWaiting).toMatchObject({ txHash, txStatus: 'pending' });
+    expect(rows[0].content.attestation).toMatchObject({
+      txHash,
+      txStatus: 'confirmed',
+      attestationUid: uid,
+      blockNumber: 7,
+      gasCost: '21000000000000',
+    });
+  });
+
+  it('should settle pending attestations from earlier cycles', async () => {
+    const { service, rows } = createService(2);
+    const txHash = `0x${'ab'.repeat(32)}`;
+    await (service as any).ledger.record({
+      marketId: market.marketId,
+      marketAddress: market.marketAddress,
+      probability: 70,
+      confidence: 0.8,
+      reasoning: '',
+      calldata: null,
+      txHash,
+      txStatus: 'pending',
+      txError: null,
+      attestationUid: null,
+      blockNumber: null,
+      batchIndex: null,
+      gasCost: null,
+      cycleId: null,
+      promptVersion: null,
+      sources: [],
+      adjustment: null,
+    });
+    const tracker = {
+      track: mock(),
+      check: mock(async () => ({
+        txStatus: 'reverted',
+        attestationUids: [],
+        blockNumber: 9,
+        txError: 'Transaction reverted',
+      })),
+    };
+    (service as any).transactionTracker = tracker;
+
+    await (service as any).attestationCycle();
+
+    expect(tracker.check).toHaveBeenCalledWith(
+      txHash,
+      rows[0].content.attestation.timestamp
+    );
+    expect(rows[0].content.attestation).toMatchObject({
+      txStatus: 'reverted',
+      blockNumber: 9,
+    });
+  });
+
+  it('should release the gas charged for a dropped transaction', async () => {
+    const { service, rows } = createService(2);
+    const txHash = `0x${'ab'.repeat(32)}`;
+    await (service as any).ledger.record({
+      marketId: market.marketId,
+      marketAddress: market.marketAddress,
+      probability: 70,
+      confidence: 0.8,
+      reasoning: '',
+      calldata: null,
+      txHash,
+      txStatus: 'pending',
+      txError: null,
+      attestationUid: null,
+      blockNumber: null,
+      batchIndex: null,
+      gasCost: null,
+      cycleId: null,
+      promptVersion: null,
+      sources: [],
+      adjustment: null,
+    });
+    (service as any).spendingGuard.record(txHash, 1, parseEther('0.002'));
+    (service as any).transactionTracker = {
+      check: mock(async () => ({
+        txStatus: 'dropped',
+        attestationUids: [],
+        blockNumber: null,
+        gasCost: 0n,
+        txError: 'Transaction dropped before it was mined',
+      })),
+    };
+
+    await (service as any).reconcilePendingTransactions();
+
+    expect(rows[0].content.attestation).toMatchObject({
+      txStatus: 'dropped',
+      gasCost: '0',
+    });
+    expect(await (service as any).ledger.pending()).toHaveLength(0);
+    expect((await service.getStatus()).spending.gasSpentLastDayEth).toBe('0');
+  });
+
+  it('should pause and report why when a guardrail is hit', async () => {
+    const { service, useModel, rows } = createService(25);
+    (service as any).spendingGuard = new SpendingGuard({
+      maxAttestationsPerHour: 0,
+    });
+
+    await (service as any).attestationCycle();
+
+    expect(useModel).not.toHaveBeenCalled();
+    expect(rows).toHaveLength(0);
+    const { pausedBy } = await service.getStatus();
+    expect(pausedBy).toMatchObject({
+      limit: 'attestationsPerHour',
+      reason: '0 attestations in the last hour; the limit is 0',
+    });
+
+    // Lifting the limit resumes the loop
+    (service as any).spendingGuard = new SpendingGuard();
+    await (service as any).attestationCycle();
+    expect(useModel).toHaveBeenCalledTimes(1);
+    expect((await service.getStatus()).pausedBy).toBeNull();
+  });
+
+  it('should charge signer submissions against the daily gas budget', async () => {
+    const { service } = createService(25);
+    (service as any).spendingGuard = new SpendingGuard({
+      maxDailyGasEth: 0.003,
+    });
+    const signer = {
+      estimateCost: mock(async () => parseEther('0.002')),
+      send: mock(async () => ({
+        txHash: `0x${'ef'.repeat(32)}`,
+        gas: 100_000n,
+        maxFeePerGas: 20_000_000_000n, // 20 gwei -> 0.002 ETH worst case
+      })),
+    };
+    (service as any).walletSigner = signer;
+    const tx = {
+      to: '0x0000000000000000000000000000000000000001',
+      data: '0x',
+      value: '0',
+      chainId: 42161,
+    };
+
+    await service.submitTransaction(tx);
+
+    expect((await service.getStatus()).spending).toEqual({
+      attestationsLastHour: 1,
+      attestationsLastDay: 1,
+      gasSpentLastDayEth: '0.002',
+    });
+    // Still under the budget, but the next transaction could take it over
+    await expect(service.submitTransaction(tx)).rejects.toThrow(
+      'Paused by guardrail: 0.002 ETH spent on gas in the last 24 hours and the next transaction could cost up to 0.002 ETH; the budget is 0.003 ETH'
+    );
+    expect(signer.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse manual attestations for markets that are not active', async () => {
+    const { service } = createService(25);
+
+    await expect(service.attestMarketById('9')).rejects.toThrow(
+      MarketNotFoundError
+    );
+  });
+
+  it('should not attest when the built attestation decodes to another market', async () => {
+    // The calldata encodes the numeric id, which reads back as '7'
+    const padded = { ...market, id: '07', marketId: '07' };
+    const { service, rows } = createService(25, [padded]);
+
+    expect(await service.attestMarketById('07')).toBeNull();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should seed the spending guard from recent ledger records', async () => {
+    const { service } = createService(25);
+    const record = {
+      marketId: market.marketId,
+      marketAddress: market.marketAddress,
+      probability: 70,
+      confidence: 0.8,
+      reasoning: '',
+      calldata: null,
+      txStatus: 'confirmed' as const,
+      txError: null,
+      attestationUid: null,
+      blockNumber: 9,
+      cycleId: null,
+      promptVersion: null,
+      sources: [],
+      adjustment: null,
+    };
+    const batchHash = `0x${'01'.repeat(32)}`;
+    const ledger = (service as any).ledger;
+    // A two-market multiAttest transaction shares one gas cost
+    for (const batchIndex of [0, 1]) {
+      await ledger.record({
+        ...record,
+        txHash: batchHash,
+        batchIndex,
+        gasCost: '1500000000000000',
+      });
+    }
+    // Still pending at shutdown, so charged at its worst case
+    await ledger.record({
+      ...record,
+      txHash: `0x${'02'.repeat(32)}`,
+      txStatus: 'pending',
+      blockNumber: null,
+      batchIndex: null,
+      gasCost: '2000000000000000',
+    });
+    // Sent by the submit action, which reported no hash
+    await ledger.record({
+      ...record,
+      txHash: null,
+      txStatus: 'unconfirmed',
+      blockNumber: null,
+      batchIndex: null,
+      gasCost: null,
+    });
+    // Never sent
+    await ledger.record({
+      ...record,
+      txHash: null,
+      txStatus: 'failed',
+      txError: 'nonce too low',
+      blockNumber: null,
+      batchIndex: null,
+      gasCost: null,
+    });
+    await ledger.record({
+      ...record,
+      txHash: `0x${'03'.repeat(32)}`,
+      batchIndex: null,
+      gasCost: '1000000000000000',
+      timestamp: Date.now() - 2 * 24 * 60 * 60 * 1000,
+    });
+
+    await (service as any).seedSpendingGuard();
+
+    expect((await service.getStatus()).spending).toEqual({
+      attestationsLastHour: 4,
+      attestationsLastDay: 4,
+      gasSpentLastDayEth: '0.0035',
+    });
+  });
+
+  it('should check the wallet each live cycle and report it in the status', async () => {
+    const { service, walletClient } = createService(2);
+
+    await (service as any).attestationCycle();
+
+    expect(walletClient.getBalance).toHaveBeenCalledTimes(1);
+    expect((await service.getStatus()).wallet).toMatchObject({
+      address: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+      chainId: 42161,
+      rpcChainId: 42161,
+      balanceEth: '1',
+      nonce: 3,
+      problems: [],
+    });
+  });
+
+  it('should refuse to start autonomous mode with an empty wallet', async () => {
+    const { service, walletClient } = createService(25);
+    walletClient.getBalance.mockResolvedValue(0n);
+    const runCycle = spyOn(service as any, 'runCycle');
+
+    await expect(service.startAutonomous()).rejects.toThrow(
+      /has no ETH on chain 42161/
+    );
+
+    expect(runCycle).not.toHaveBeenCalled();
+    const status = await service.getStatus();
+    expect(status.isRunning).toBe(false);
+    expect(status.wallet?.problems).toEqual([
+      'Wallet has no ETH on Arbitrum to pay for gas',
+    ]);
+  });
+
+  it('should keep the configured guardrails and refuse to submit when other settings are invalid', async () => {
+    const { service } = createService(25);
+    (service as any).runtime.character.settings = {
+      autonomousMode: {
+        guardrails: { maxAttestationsPerHour: 0 },
+        multiAttest: { chunkSize: 0 },
+      },
+    };
+
+    await (service as any).initializeService();
+
+    expect((service as any).spendingGuard.check(1, null)).toMatchObject({
+      limit: 'attestationsPerHour',
+    });
+    await expect(service.startAutonomous()).rejects.toThrow(
+      /Not submitting with invalid settings: .*multiAttest.chunkSize/
+    );
+    await expect(
+      service.submitTransaction({
+        to: '0x0000000000000000000000000000000000000001',
+        data: '0x',
+        value: '0',
+        chainId: 42161,
+      })
+    ).rejects.toThrow(/Not submitting with invalid settings/);
+    expect((await service.getStatus()).isRunning).toBe(false);
+  });
+
+  it('should start in dry run without checking the wallet', async () => {
+    const { service, walletClient } = createService(25);
+    walletClient.getBalance.mockResolvedValue(0n);
+    await service.setDryRun(true);
+    spyOn(service as any, 'runCycle').mockResolvedValue(undefined);
+
+    await service.startAutonomous();
+
+    expect(walletClient.getBalance).not.toHaveBeenCalled();
+    expect((await service.getStatus()).isRunning).toBe(true);
+    await service.stopAutonomous();
+  });
+
+  it('should start the loop only once when starts overlap', async () => {
+    const { service, walletClient } = createService(25);
+    let fund: (balance: bigint) => void = () => {};
+    const balance = new Promise<bigint>(resolve => (fund = resolve));
+    walletClient.getBalance.mockImplementation(() => balance);
+    const runCycle = spyOn(service as any, 'runCycle').mockResolvedValue(
+      undefined
+    );
+    const setInterval = spyOn(globalThis, 'setInterval');
+
+    const first = service.startAutonomous();
+    const second = service.startAutonomous();
+    fund(parseEther('1'));
+    await Promise.all([first, second]);
+
+    expect(walletClient.getBalance).toHaveBeenCalledTimes(1);
+    expect(setInterval).toHaveBeenCalledTimes(1);
+    expect(runCycle).toHaveBeenCalledTimes(1);
+    await service.stopAutonomous();
+    expect((service as any).intervalId).toBeUndefined();
+  });
+
+  it('should report the loop running before its first cycle finishes', async () => {
+    const { service } = createService(25);
+    spyOn(service as any, 'runCycle').mockReturnValue(new Promise(() => {}));
+
+    await service.startAutonomous();
+
+    expect((await service.getStatus()).isRunning).toBe(true);
+    await service.stopAutonomous();
+  });
+
+  it('should check the wallet before a running loop goes live', async () => {
+    const { service, walletClient } = createService(25);
+    walletClient.getBalance.mockResolvedValue(0n);
+    await service.setDryRun(true);
+    spyOn(service as any, 'runCycle').mockResolvedValue(undefined);
+    await service.startAutonomous();
+
+    await expect(service.setDryRun(false)).rejects.toThrow(
+      /has no ETH on chain 42161/
+    );
+    expect(service.isDryRun()).toBe(true);
+
+    walletClient.getBalance.mockResolvedValue(10n ** 18n);
+    await service.setDryRun(false);
+    expect(service.isDryRun()).toBe(false);
+    await service.stopAutonomous();
+  });
+
+  it('should not predict markets attested within the last day', async () => {
+    const { service, useModel, rows } = createService(2);
+
+    await (service as any).attestationCycle();
+
+    expect(useModel).not.toHaveBeenCalled();
+    expect(rows).toHaveLength(0);
+    expect((await service.getStatus()).lastCycleUsage).toMatchObject({
+      calls: 0,
+      predictions: 0,
+    });
+  });
+
+  it('should not start the loop when research settings are invalid', async () => {
+    const { service } = createService(25);
+    (service as any).runtime.character.settings = {
+      autonomousMode: { enabled: true },
+      research: { provider: 'http' },
+    };
+    const startAutonomous = spyOn(service, 'startAutonomous');
+    const originalSearchUrl = process.env.RESEARCH_SEARCH_URL;
+    delete process.env.RESEARCH_SEARCH_URL;
+
+    try {
+      await (service as any).initializeService();
+    } finally {
+      if (originalSearchUrl !== undefined) {
+        process.env.RESEARCH_SEARCH_URL = originalSearchUrl;
+      }
+    }
+
+    expect(startAutonomous).not.toHaveBeenCalled();
+  });
+
+  describe('dry run setting', () => {
+    const originalDryRun = process.env.AUTO_MODE_DRY_RUN;
+
+    afterEach(() => {
+      if (originalDryRun === undefined) {
+        delete process.env.AUTO_MODE_DRY_RUN;
+      } else {
+        process.env.AUTO_MODE_DRY_RUN = originalDryRun;
+      }
+    });
+
+    it('should let AUTO_MODE_DRY_RUN override the character file', async () => {
+      const { service } = createService(25);
+      (service as any).runtime.character.settings = {
+        autonomousMode: { dryRun: false },
+      };
+      process.env.AUTO_MODE_DRY_RUN = 'true';
+
+      await (service as any).initializeService();
+
+      expect((await service.getStatus()).dryRun).toBe(true);
+    });
+
+    it('should use the character file when AUTO_MODE_DRY_RUN is unset', async () => {
+      const { service } = createService(25);
+      (service as any).runtime.character.settings = {
+        autonomousMode: { dryRun: true },
+      };
+      delete process.env.AUTO_MODE_DRY_RUN;
+
+      await (service as any).initializeService();
+
+      expect((await service.getStatus()).dryRun).toBe(true);
+    });
+  });
+
+  it('should report no usage before the first cycle', async () => {
+    const { service } = createService(25);
+    expect((await service.getStatus()).lastCycleUsage).toBeNull();
+  });
+
+  it('should re-predict due markets in parallel while filtering', async () => {
+    const markets = ['1', '2', '3'].map(id => ({
+      ...market,
+      id,
+      marketId: id,
+    }));
+    const { service, useModel, sapience } = createService(25, markets);
+    (service as any).attestationConfig.concurrency = 2;
+    sapience.getAttestationsByAddress.mockResolvedValue(
+      markets.map(({ marketId }) => ({
+        id: `att-${marketId}`,
+        attester: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+        marketAddress: market.marketAddress,
+        marketId,
+        prediction: probabilityToSqrtPriceX96(30).toString(),
+        comment: 'earlier call',
+        createdAt: Date.now() - 25 * HOUR,
+      }))
+    );
+    let inFlight = 0;
+    let maxInFlight = 0;
+    useModel.mockImplementation(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return { probability: 70, reasoning: 'front moving in', confidence: 0.8 };
+    });
+
+    await (service as any).attestationCycle();
+
+    expect(useModel).toHaveBeenCalledTimes(3);
+    expect(maxInFlight).toBe(2);
+    expect(service.getEligibleMarkets().markets.map(m => m.id)).toEqual([
+      '1',
+      '2',
+      '3',
+    ]);
+  });
+
+  it('should skip a tick while the previous cycle is still running', async () => {
+    const { service } = createService(25);
+    let finishCycle!: () => void;
+    spyOn(service as any, 'attestationCycle').mockImplementation(
+      () => new Promise<void>(resolve => (finishCycle = resolve))
+    );
+
+    const first = (service as any).runCycle();
+    await (service as any).runCycle();
+    expect(await service.getStatus()).toMatchObject({
+      cycleInProgress: true,
+      skippedCycles: 1,
+    });
+
+    finishCycle();
+    await first;
+    expect(await service.getStatus()).toMatchObject({
+      cycleInProgress: false,
+      skippedCycles: 1,
+      overrunCycles: 0,
+    });
+  });
+});
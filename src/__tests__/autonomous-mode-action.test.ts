@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { autonomousModeAction } from '../actions/autonomousMode';
+import { AttestationService } from '../services/attestationService';
+
+const status = {
+  isRunning: true,
+  enabled: true,
+  interval: 300000,
+  minConfidence: 0.6,
+  batchSize: 5,
+  concurrency: 1,
+  multiAttestChunkSize: null,
+  pausedBy: null,
+  spending: { attestationsLastHour: 0, attestationsLastDay: 0, gasSpentLastDayEth: '0' },
+  wallet: null,
+  dryRun: false,
+  chainId: 42161,
+  attestationCount: 0,
+  paperAttestationCount: 0,
+  lastCycle: null,
+  lastCycleUsage: null,
+  cycleInProgress: false,
+  skippedCycles: 0,
+  overrunCycles: 0,
+  accuracy: null,
+  paperAccuracy: null,
+};
+
+describe('AUTONOMOUS_MODE action', () => {
+  let service: any;
+  let getInstance: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    service = {
+      setDryRun: mock(async () => {}),
+      startAutonomous: mock(async () => {}),
+      stopAutonomous: mock(async () => {}),
+      getStatus: mock(async () => status),
+      getHistory: mock(async () => []),
+    };
+    getInstance = spyOn(AttestationService, 'getInstance').mockReturnValue(service);
+  });
+
+  afterEach(() => {
+    getInstance.mockRestore();
+  });
+
+  async function send(text: string) {
+    const callback = mock(async () => []);
+    await autonomousModeAction.handler(
+      {} as IAgentRuntime,
+      { content: { text } } as Memory,
+      undefined,
+      undefined,
+      callback,
+    );
+    return callback;
+  }
+
+  it.each([
+    ['dry run on', true],
+    ['dry run off', false],
+    ['please disable paper mode', false],
+    ['enable paper trading', true],
+  ])('should toggle dry run for "%s"', async (text, dryRun) => {
+    await send(text);
+    expect(service.setDryRun).toHaveBeenCalledWith(dryRun);
+    expect(service.startAutonomous).not.toHaveBeenCalled();
+  });
+
+  it('should switch to dry run before starting', async () => {
+    await send('start auto mode in dry run');
+    expect(service.setDryRun).toHaveBeenCalledWith(true);
+    expect(service.startAutonomous).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a refused switch to live', async () => {
+    service.setDryRun.mockImplementation(async () => {
+      throw new Error('[AttestationService] Wallet 0x1 has no ETH on chain 42161');
+    });
+
+    const callback = await send('dry run off');
+
+    expect(callback.mock.calls[0][0].text).toContain('has no ETH on chain 42161');
+  });
+
+  it('should not toggle dry run when paper is only mentioned', async () => {
+    const callback = await send('show paper dashboard');
+    expect(service.setDryRun).not.toHaveBeenCalled();
+    expect(callback.mock.calls[0][0].text).toContain('Autonomous Mode Dashboard');
+  });
+});
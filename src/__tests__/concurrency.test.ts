@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'bun:test';
+import { mapWithConcurrency, Mutex } from '../utils/concurrency';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('mapWithConcurrency', () => {
+  it('should never run more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency(
+      [1, 2, 3, 4, 5, 6, 7],
+      3,
+      async item => {
+        running++;
+        peak = Math.max(peak, running);
+        await tick();
+        running--;
+        return item * 2;
+      }
+    );
+
+    expect(peak).toBe(3);
+    expect(
+      results.map(r => (r as PromiseFulfilledResult<number>).value)
+    ).toEqual([2, 4, 6, 8, 10, 12, 14]);
+  });
+
+  it('should keep going when items fail and report them in order', async () => {
+    const results = await mapWithConcurrency([1, 2, 3], 2, async item => {
+      if (item === 2) throw new Error('boom');
+      return item;
+    });
+
+    expect(results.map(r => r.status)).toEqual([
+      'fulfilled',
+      'rejected',
+      'fulfilled',
+    ]);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('boom');
+  });
+
+  it('should treat invalid limits as sequential and handle empty input', async () => {
+    let running = 0;
+    let peak = 0;
+    await mapWithConcurrency([1, 2, 3], 0, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+    });
+
+    expect(peak).toBe(1);
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe('Mutex', () => {
+  it('should run tasks one at a time in queue order, even after failures', async () => {
+    const mutex = new Mutex();
+    const events: string[] = [];
+    const task = (name: string, fail = false) =>
+      mutex.run(async () => {
+        events.push(`start ${name}`);
+        await tick();
+        events.push(`end ${name}`);
+        if (fail) throw new Error(name);
+        return name;
+      });
+
+    const results = await Promise.allSettled([
+      task('a'),
+      task('b', true),
+      task('c'),
+    ]);
+
+    expect(events).toEqual([
+      'start a',
+      'end a',
+      'start b',
+      'end b',
+      'start c',
+      'end c',
+    ]);
+    expect(results.map(r => r.status)).toEqual([
+      'fulfilled',
+      'rejected',
+      'fulfilled',
+    ]);
+  });
+});
@@ -1,51 +1,151 @@
 import React from 'react';
 import { panels } from '../../../frontend/index';
 
+const status = {
+  isRunning: false,
+  enabled: false,
+  interval: 300000,
+  minConfidence: 0.6,
+  batchSize: 5,
+  concurrency: 1,
+  multiAttestChunkSize: null,
+  pausedBy: {
+    limit: 'attestationsPerDay',
+    reason: '50 attestations in the last 24 hours; the limit is 50',
+    since: 1735689600000,
+  },
+  spending: {
+    attestationsLastHour: 2,
+    attestationsLastDay: 50,
+    gasSpentLastDayEth: '0.0012',
+  },
+  wallet: {
+    address: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+    chainId: 42161,
+    rpcChainId: 42161,
+    balanceEth: '0',
+    nonce: 12,
+    problems: ['Wallet has no ETH on Arbitrum to pay for gas'],
+    checkedAt: 1735689600000,
+  },
+  dryRun: false,
+  chainId: 42161,
+  attestationCount: 1,
+  paperAttestationCount: 0,
+  lastCycle: null,
+  lastCycleUsage: null,
+  cycleInProgress: false,
+  skippedCycles: 0,
+  overrunCycles: 0,
+  accuracy: null,
+  paperAccuracy: null,
+};
+
+const txHash = `0x${'ab'.repeat(32)}`;
+
 describe('PanelComponent Tests', () => {
   // Get the Panel component from the exported panels
   const PanelComponent = panels[0]?.component;
 
+  beforeEach(() => {
+    cy.intercept('GET', '/api/sage/status*', { body: status }).as('status');
+    cy.intercept('GET', '/api/sage/history*', {
+      body: [
+        {
+          marketId: '7',
+          marketAddress: '0x0000000000000000000000000000000000000001',
+          probability: 65,
+          confidence: 0.7,
+          reasoning: 'Polling moved sharply this week',
+          calldata: null,
+          txHash,
+          txStatus: 'confirmed',
+          txError: null,
+          attestationUid: `0x${'cd'.repeat(32)}`,
+          blockNumber: 123,
+          cycleId: 'cycle-1',
+          timestamp: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+    });
+    cy.intercept('GET', '/api/sage/markets/eligible*', {
+      body: {
+        cycleId: 'cycle-1',
+        markets: [
+          {
+            id: '8',
+            marketId: '8',
+            marketAddress: '0x0000000000000000000000000000000000000002',
+            question: 'Will it snow?',
+            currentPrice: null,
+            volume: null,
+            endTimestamp: null,
+            _attestationReason: 'No previous attestation',
+          },
+        ],
+      },
+    });
+  });
+
   describe('Panel Registration', () => {
     it('should export panels array with correct structure', () => {
       expect(panels).to.be.an('array');
       expect(panels).to.have.length.greaterThan(0);
 
       const panel = panels[0];
-      expect(panel).to.have.property('name', 'Example');
-      expect(panel).to.have.property('path', 'example');
+      expect(panel).to.have.property('name', 'Sage');
+      expect(panel).to.have.property('path', 'sage');
       expect(panel).to.have.property('component');
-      expect(panel).to.have.property('icon', 'Book');
+      expect(panel).to.have.property('icon', 'Activity');
       expect(panel).to.have.property('public', false);
-      expect(panel).to.have.property('shortLabel', 'Example');
+      expect(panel).to.have.property('shortLabel', 'Sage');
     });
   });
 
   describe('Component Rendering', () => {
-    it('should render with agent ID', () => {
-      const testAgentId = 'test-agent-12345';
-
+    it('should show status, attestations and eligible markets', () => {
       if (!PanelComponent) {
         throw new Error('PanelComponent not found in panels export');
       }
 
-      cy.mount(<PanelComponent agentId={testAgentId} />);
+      cy.mount(<PanelComponent agentId="test-agent-12345" />);
 
-      // Note: The component has a typo "Helllo" instead of "Hello"
-      cy.contains(`Helllo ${testAgentId}!`).should('be.visible');
+      cy.contains('Stopped').should('be.visible');
+      cy.contains('Polling moved sharply this week').should('be.visible');
+      cy.get(`a[href="https://arbiscan.io/tx/${txHash}"]`).should('exist');
+      cy.contains('confirmed').should('be.visible');
+      cy.contains('Paused by guardrail').should('be.visible');
+      cy.contains('0.0012 ETH gas').should('be.visible');
+      cy.contains('Wallet has no ETH on Arbitrum').should('be.visible');
+      cy.contains('Will it snow?').should('be.visible');
+      cy.contains('No previous attestation').should('be.visible');
     });
 
-    it('should handle different agent IDs', () => {
-      const agentIds = ['agent-1', 'agent-2', '12345678-1234-1234-1234-123456789abc', 'test-agent'];
+    it('should request data for the given agent', () => {
+      cy.mount(<PanelComponent agentId="agent-2" />);
+      cy.wait('@status').its('request.url').should('include', 'agentId=agent-2');
+    });
 
-      agentIds.forEach((agentId) => {
-        cy.mount(<PanelComponent agentId={agentId} />);
-        cy.contains(`Helllo ${agentId}!`).should('be.visible');
-      });
+    it('should start autonomous mode from the panel', () => {
+      cy.intercept('POST', '/api/sage/autonomous/start*', {
+        body: { ...status, isRunning: true },
+      }).as('start');
+
+      cy.mount(<PanelComponent agentId="test-agent-12345" />);
+      cy.contains('button', 'Start').click();
+
+      cy.wait('@start');
+      cy.contains('Running').should('be.visible');
     });
 
-    it('should render without crashing with empty agent ID', () => {
-      cy.mount(<PanelComponent agentId="" />);
-      cy.contains('Helllo !').should('be.visible');
+    it('should show an error when the status route fails', () => {
+      cy.intercept('GET', '/api/sage/status*', {
+        statusCode: 503,
+        body: { error: 'Attestation service not available' },
+      });
+
+      cy.mount(<PanelComponent agentId="test-agent-12345" />);
+      cy.contains('Attestation service not available').should('be.visible');
     });
   });
 });
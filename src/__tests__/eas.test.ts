@@ -0,0 +1,289 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  Hex,
+  parseAbiParameters,
+} from 'viem';
+import {
+  buildAttestationCalldata,
+  buildMultiAttestationCalldata,
+  decodeAttestation,
+  decodeAttestationCalldata,
+  decodeAttestationData,
+  decodeMultiAttestationCalldata,
+  resolveAttestationChain,
+} from '../utils/eas';
+import { probabilityToSqrtPriceX96 } from '../utils/sqrtPrice';
+
+const market = {
+  marketId: 42,
+  address: '0x1234567890AbcdEF1234567890aBcdef12345678',
+  question: 'Will it rain tomorrow?',
+};
+
+const prediction = {
+  probability: 65,
+  reasoning: 'forecast models disagree but the market is underpricing rain',
+  confidence: 0.7,
+};
+
+const ZERO_BYTES32 =
+  '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+describe('EAS attestation decoding', () => {
+  it('should decode calldata built by buildAttestationCalldata', async () => {
+    const built = await buildAttestationCalldata(market, prediction, 42161);
+    expect(built).not.toBeNull();
+
+    const decoded = decodeAttestationCalldata(built!.data as Hex);
+
+    expect(decoded).toEqual({
+      marketAddress: market.address,
+      marketId: '42',
+      questionId: ZERO_BYTES32,
+      prediction: probabilityToSqrtPriceX96(65).toString(),
+      probability: 65,
+      comment: prediction.reasoning,
+    });
+  });
+
+  it('should decode the attestation data bytes directly', () => {
+    const data = encodeAbiParameters(
+      parseAbiParameters(
+        'address marketAddress, uint256 marketId, bytes32 questionId, uint160 prediction, string comment'
+      ),
+      [
+        market.address as Hex,
+        7n,
+        ZERO_BYTES32,
+        probabilityToSqrtPriceX96(12.5),
+        'low odds',
+      ]
+    );
+
+    expect(decodeAttestationData(data)).toMatchObject({
+      marketId: '7',
+      probability: 12.5,
+      comment: 'low odds',
+    });
+  });
+
+  it('should detect whether it was given calldata or data bytes', async () => {
+    const built = await buildAttestationCalldata(market, prediction, 42161);
+    const fromCalldata = decodeAttestation(built!.data as Hex);
+
+    const data = encodeAbiParameters(
+      parseAbiParameters(
+        'address marketAddress, uint256 marketId, bytes32 questionId, uint160 prediction, string comment'
+      ),
+      [market.address as Hex, 42n, ZERO_BYTES32, 0n, 'never']
+    );
+    const fromData = decodeAttestation(data);
+
+    expect(fromCalldata.probability).toBe(65);
+    expect(fromData.probability).toBe(0);
+  });
+
+  it('should round-trip the truncated comment that goes on-chain', async () => {
+    const long = { ...prediction, reasoning: 'x'.repeat(250) };
+    const built = await buildAttestationCalldata(market, long, 42161);
+
+    const decoded = decodeAttestationCalldata(built!.data as Hex);
+    expect(decoded.comment).toHaveLength(180);
+    expect(decoded.comment.endsWith('...')).toBe(true);
+  });
+
+  it('should reject attestations for another schema', () => {
+    const calldata = encodeFunctionData({
+      abi: [
+        {
+          name: 'attest',
+          type: 'function',
+          inputs: [
+            {
+              name: 'request',
+              type: 'tuple',
+              components: [
+                { name: 'schema', type: 'bytes32' },
+                {
+                  name: 'data',
+                  type: 'tuple',
+                  components: [
+                    { name: 'recipient', type: 'address' },
+                    { name: 'expirationTime', type: 'uint64' },
+                    { name: 'revocable', type: 'bool' },
+                    { name: 'refUID', type: 'bytes32' },
+                    { name: 'data', type: 'bytes' },
+                    { name: 'value', type: 'uint256' },
+                  ],
+                },
+              ],
+            },
+          ],
+          outputs: [{ name: '', type: 'bytes32' }],
+          stateMutability: 'payable',
+        },
+      ],
+      functionName: 'attest',
+      args: [
+        {
+          schema: `0x${'11'.repeat(32)}`,
+          data: {
+            recipient: '0x0000000000000000000000000000000000000000',
+            expirationTime: 0n,
+            revocable: false,
+            refUID: ZERO_BYTES32,
+            data: '0x',
+            value: 0n,
+          },
+        },
+      ],
+    });
+
+    expect(() => decodeAttestationCalldata(calldata)).toThrow(/schema/);
+  });
+
+  it('should reject malformed data', () => {
+    expect(() => decodeAttestationData('0x1234')).toThrow();
+  });
+});
+
+describe('EAS multiAttest', () => {
+  const second = {
+    market: { ...market, marketId: 43 },
+    prediction: { ...prediction, probability: 20, reasoning: 'unlikely' },
+  };
+
+  it('should build one multiAttest call that decodes back in order', () => {
+    const built = buildMultiAttestationCalldata(
+      [{ market, prediction }, second],
+      42161
+    );
+    expect(built).toMatchObject({
+      to: '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458',
+      value: '0',
+      chainId: 42161,
+    });
+
+    const decoded = decodeMultiAttestationCalldata(built!.data as Hex);
+    expect(decoded.map(d => [d.marketId, d.probability, d.comment])).toEqual([
+      ['42', 65, prediction.reasoning],
+      ['43', 20, 'unlikely'],
+    ]);
+  });
+
+  it('should not build an empty multiAttest call', () => {
+    expect(buildMultiAttestationCalldata([], 42161)).toBeNull();
+  });
+
+  it('should keep attest and multiAttest decoding apart', async () => {
+    const single = await buildAttestationCalldata(market, prediction, 42161);
+    const multi = buildMultiAttestationCalldata([second], 42161);
+
+    expect(() => decodeMultiAttestationCalldata(single!.data as Hex)).toThrow(
+      /Unsupported EAS function attest/
+    );
+    expect(() => decodeAttestationCalldata(multi!.data as Hex)).toThrow(
+      /Unsupported EAS function multiAttest/
+    );
+    expect(() =>
+      decodeMultiAttestationCalldata(multi!.data as Hex, `0x${'11'.repeat(32)}`)
+    ).toThrow(/schema/);
+  });
+});
+
+describe('attestation chain resolution', () => {
+  it('should default to Arbitrum with the registered schema', () => {
+    expect(resolveAttestationChain({}, {})).toEqual({
+      chainId: 42161,
+      name: 'Arbitrum',
+      easAddress: '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458',
+      schemaId:
+        '0x2dbb0921fa38ebc044ab0a7fe109442c456fb9ad39a68ce0a32f193744d17744',
+      rpcUrl: null,
+    });
+  });
+
+  it('should pick the chain and schema from env', () => {
+    const chain = resolveAttestationChain(
+      {},
+      { ATTESTATION_CHAIN_ID: '11155111', ATTESTATION_SCHEMA_ID: '0xABCD' }
+    );
+    expect(chain).toMatchObject({
+      chainId: 11155111,
+      name: 'Sepolia',
+      easAddress: '0xC2679fBD37d54388Ce493F1DB75320D236e1815e',
+      schemaId: '0xabcd',
+    });
+  });
+
+  it('should pick the receipt RPC from settings, then env', () => {
+    const env = { ATTESTATION_RPC_URL: 'https://env.example' };
+    expect(
+      resolveAttestationChain(
+        { rpcUrls: { 42161: 'https://arb.example' } },
+        env
+      ).rpcUrl
+    ).toBe('https://arb.example');
+    expect(resolveAttestationChain({}, env).rpcUrl).toBe('https://env.example');
+  });
+
+  it('should prefer character settings over env', () => {
+    const chain = resolveAttestationChain(
+      { chainId: 8453, schemaIds: { 8453: '0xbase' } },
+      { ATTESTATION_CHAIN_ID: '11155111', ATTESTATION_SCHEMA_ID: '0xenv' }
+    );
+    expect(chain.chainId).toBe(8453);
+    expect(chain.schemaId).toBe('0xbase');
+  });
+
+  it('should only apply the env schema to the env chain', () => {
+    const env = {
+      ATTESTATION_CHAIN_ID: '11155111',
+      ATTESTATION_SCHEMA_ID: '0xenv',
+    };
+    expect(resolveAttestationChain({ chainId: 42161 }, env).schemaId).toBe(
+      '0x2dbb0921fa38ebc044ab0a7fe109442c456fb9ad39a68ce0a32f193744d17744'
+    );
+    expect(
+      resolveAttestationChain({}, { ATTESTATION_SCHEMA_ID: '0xenv' }).schemaId
+    ).toBe(
+      '0x2dbb0921fa38ebc044ab0a7fe109442c456fb9ad39a68ce0a32f193744d17744'
+    );
+  });
+
+  it('should refuse chains without a registered schema', () => {
+    expect(() => resolveAttestationChain({ chainId: 11155111 }, {})).toThrow(
+      /No attestation schema registered for chain 11155111/
+    );
+  });
+
+  it('should refuse chains without an EAS contract', () => {
+    expect(() =>
+      resolveAttestationChain({ chainId: 999, schemaIds: { 999: '0x1' } }, {})
+    ).toThrow(/No EAS contract known for chain 999/);
+  });
+
+  it('should build and decode attestations for the configured chain', async () => {
+    const chain = resolveAttestationChain(
+      { chainId: 11155111, schemaIds: { 11155111: `0x${'ab'.repeat(32)}` } },
+      {}
+    );
+    const built = await buildAttestationCalldata(market, prediction, chain);
+
+    expect(built).toMatchObject({ to: chain.easAddress, chainId: 11155111 });
+    expect(() => decodeAttestationCalldata(built!.data as Hex)).toThrow(
+      /schema/
+    );
+    expect(
+      decodeAttestationCalldata(built!.data as Hex, chain.schemaId).probability
+    ).toBe(65);
+  });
+
+  it('should not build calldata for an unconfigured chain id', async () => {
+    expect(
+      await buildAttestationCalldata(market, prediction, 11155111)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { ModelType } from '@elizaos/core';
+import {
+  generateEnsemblePrediction,
+  resolveEnsembleSettings,
+} from '../services/ensemblePredictor';
+
+// Runtime whose useModel answers with the given outputs in order
+function createRuntime(...outputs: unknown[]) {
+  const useModel = mock(async () => outputs.shift());
+  return { runtime: { useModel } as any, useModel };
+}
+
+const sample = (probability: number, reasoning = `at ${probability}`) => ({
+  probability,
+  reasoning,
+  confidence: 0.9,
+});
+
+describe('resolveEnsembleSettings', () => {
+  it('should default to a single OBJECT_SMALL sample', () => {
+    expect(resolveEnsembleSettings()).toEqual({
+      samples: 1,
+      models: ['OBJECT_SMALL'],
+      aggregation: 'median',
+      trimFraction: undefined,
+    });
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => resolveEnsembleSettings({ samples: 0 })).toThrow(
+      /positive integer/
+    );
+    expect(() =>
+      resolveEnsembleSettings({ models: ['TEXT_HUGE' as any] })
+    ).toThrow(/Unknown ensemble model "TEXT_HUGE"/);
+    expect(() =>
+      resolveEnsembleSettings({ aggregation: 'mode' as any })
+    ).toThrow(/Unknown aggregation method "mode"/);
+    expect(() =>
+      resolveEnsembleSettings({ trimFraction: 'some' as any })
+    ).toThrow(/trimFraction must be a number in \[0, 0.5\)/);
+  });
+});
+
+describe('generateEnsemblePrediction', () => {
+  it('should pool samples and derive confidence from their spread', async () => {
+    const { runtime, useModel } = createRuntime(
+      sample(60),
+      sample(70, 'closest to the median'),
+      sample(90)
+    );
+
+    const prediction = await generateEnsemblePrediction(
+      runtime,
+      'prompt',
+      resolveEnsembleSettings({ samples: 3, aggregation: 'median' })
+    );
+
+    expect(useModel).toHaveBeenCalledTimes(3);
+    expect(prediction.probability).toBe(70);
+    expect(prediction.reasoning).toBe('closest to the median');
+    // Standard deviation of 12.47 points, ignoring the self-reported 0.9
+    expect(prediction.confidence).toBe(0.75);
+    expect(prediction.ensemble).toEqual({
+      method: 'median',
+      samples: [60, 70, 90].map(probability => ({
+        model: 'OBJECT_SMALL',
+        probability,
+        confidence: 0.9,
+      })),
+      failedSamples: 0,
+    });
+  });
+
+  it('should spread samples across text models and parse their JSON', async () => {
+    const { runtime, useModel } = createRuntime(
+      'Sure! {"probability": 40, "reasoning": "small says", "confidence": 0.5}',
+      '```json\n{"probability": 50, "reasoning": "large says", "confidence": 0.5}\n```'
+    );
+
+    const prediction = await generateEnsemblePrediction(
+      runtime,
+      'prompt',
+      resolveEnsembleSettings({
+        samples: 2,
+        models: ['TEXT_SMALL', 'TEXT_LARGE'],
+        aggregation: 'mean',
+      })
+    );
+
+    expect(useModel.mock.calls.map(call => (call as any[])[0])).toEqual([
+      ModelType.TEXT_SMALL,
+      ModelType.TEXT_LARGE,
+    ]);
+    expect(prediction.probability).toBe(45);
+    expect(prediction.ensemble.samples.map(s => s.model)).toEqual([
+      'TEXT_SMALL',
+      'TEXT_LARGE',
+    ]);
+  });
+
+  it('should drop samples that stay invalid after repair', async () => {
+    const { runtime } = createRuntime(
+      sample(30),
+      { probability: 300, reasoning: 'bad', confidence: 0.5 },
+      sample(50),
+      { probability: 300, reasoning: 'still bad', confidence: 0.5 }
+    );
+
+    const prediction = await generateEnsemblePrediction(
+      runtime,
+      'prompt',
+      resolveEnsembleSettings({ samples: 3, aggregation: 'mean' })
+    );
+
+    expect(prediction.probability).toBe(40);
+    expect(prediction.ensemble.failedSamples).toBe(1);
+  });
+
+  it('should keep the confidence of the only sample that succeeded', async () => {
+    const { runtime } = createRuntime(
+      { probability: 300, reasoning: 'bad', confidence: 0.5 },
+      { probability: 300, reasoning: 'still bad', confidence: 0.5 },
+      sample(65)
+    );
+
+    const prediction = await generateEnsemblePrediction(
+      runtime,
+      'prompt',
+      resolveEnsembleSettings({ samples: 2, aggregation: 'trimmed-mean' })
+    );
+
+    expect(prediction.probability).toBe(65);
+    expect(prediction.confidence).toBe(0.9);
+    expect(prediction.ensemble.failedSamples).toBe(1);
+  });
+
+  it('should fail when every sample fails', async () => {
+    const { runtime } = createRuntime();
+
+    await expect(
+      generateEnsemblePrediction(
+        runtime,
+        'prompt',
+        resolveEnsembleSettings({ samples: 2 })
+      )
+    ).rejects.toThrow(/All 2 ensemble samples failed/);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  DEFAULT_SCHEDULER_SETTINGS,
+  MarketScheduler,
+  scoreMarket,
+} from '../services/marketScheduler';
+
+const NOW = Date.parse('2025-06-01T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+const { weights } = DEFAULT_SCHEDULER_SETTINGS;
+
+function market(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    marketId: id,
+    marketAddress: '0x1111111111111111111111111111111111111111',
+    question: `Market ${id}?`,
+    currentPrice: 50,
+    volume: 100,
+    endTimestamp: (NOW + 30 * DAY) / 1000,
+    _attestationReason: 'test',
+    ...overrides,
+  };
+}
+
+const neverAttested = { lastAttestedAt: null, estimatedProbability: null };
+
+describe('scoreMarket', () => {
+  it('should favour markets closing soon', () => {
+    const closingSoon = market('1', { endTimestamp: (NOW + DAY) / 1000 });
+    const closingLater = market('2');
+    expect(
+      scoreMarket(closingSoon, neverAttested, 100, weights, NOW)
+    ).toBeGreaterThan(
+      scoreMarket(closingLater, neverAttested, 100, weights, NOW)
+    );
+  });
+
+  it('should favour heavily traded markets', () => {
+    expect(
+      scoreMarket(
+        market('1', { volume: 1000 }),
+        neverAttested,
+        1000,
+        weights,
+        NOW
+      )
+    ).toBeGreaterThan(
+      scoreMarket(
+        market('2', { volume: 10 }),
+        neverAttested,
+        1000,
+        weights,
+        NOW
+      )
+    );
+  });
+
+  it('should favour markets we have not attested to recently', () => {
+    const recent = { lastAttestedAt: NOW - DAY, estimatedProbability: null };
+    const stale = { lastAttestedAt: NOW - 6 * DAY, estimatedProbability: null };
+    expect(scoreMarket(market('1'), stale, 100, weights, NOW)).toBeGreaterThan(
+      scoreMarket(market('1'), recent, 100, weights, NOW)
+    );
+  });
+
+  it('should favour markets where we disagree with the price', () => {
+    const agree = { lastAttestedAt: null, estimatedProbability: 52 };
+    const disagree = { lastAttestedAt: null, estimatedProbability: 90 };
+    expect(
+      scoreMarket(market('1'), disagree, 100, weights, NOW)
+    ).toBeGreaterThan(scoreMarket(market('1'), agree, 100, weights, NOW));
+  });
+
+  it('should only count weighted factors', () => {
+    const volumeOnly = {
+      timeToClose: 0,
+      volume: 1,
+      staleness: 0,
+      disagreement: 0,
+    };
+    expect(
+      scoreMarket(
+        market('1', { volume: 1000 }),
+        neverAttested,
+        1000,
+        volumeOnly,
+        NOW
+      )
+    ).toBe(1);
+    expect(
+      scoreMarket(
+        market('1'),
+        neverAttested,
+        100,
+        { timeToClose: 0, volume: 0, staleness: 0, disagreement: 0 },
+        NOW
+      )
+    ).toBe(0);
+  });
+});
+
+describe('MarketScheduler', () => {
+  it('should rank candidates by priority instead of listing order', () => {
+    const scheduler = new MarketScheduler();
+    const ranked = scheduler.schedule(
+      [
+        market('quiet', { volume: 1 }),
+        market('busy', { volume: 10000, endTimestamp: (NOW + DAY) / 1000 }),
+      ],
+      1,
+      NOW
+    );
+
+    expect(ranked.map(m => m.id)).toEqual(['busy', 'quiet']);
+    expect(ranked[0]._priority.skippedCycles).toBe(0);
+  });
+
+  it('should age markets that are passed over until they are picked', () => {
+    const scheduler = new MarketScheduler({ agingRate: 0.25 });
+    const quiet = market('quiet', { volume: 1, endTimestamp: null });
+    const batches: string[] = [];
+
+    // A fresh high-priority market shows up every cycle
+    for (let cycle = 0; cycle < 10; cycle++) {
+      const busy = market(`busy-${cycle}`, {
+        volume: 10000,
+        endTimestamp: (NOW + DAY) / 1000,
+      });
+      const [picked] = scheduler.schedule([busy, quiet], 1, NOW);
+      batches.push(picked.id);
+      if (picked.id === 'quiet') break;
+    }
+
+    expect(batches[batches.length - 1]).toBe('quiet');
+    expect(batches.length).toBeGreaterThan(1);
+  });
+
+  it('should reset aging once a market is picked or no longer eligible', () => {
+    const scheduler = new MarketScheduler();
+    const a = market('a', { volume: 1000 });
+    const b = market('b', { volume: 1 });
+
+    scheduler.schedule([a, b], 1, NOW);
+    expect(
+      scheduler.schedule([a, b], 1, NOW).find(m => m.id === 'b')?._priority
+        .skippedCycles
+    ).toBe(1);
+
+    scheduler.schedule([a], 1, NOW);
+    expect(
+      scheduler.schedule([a, b], 2, NOW).find(m => m.id === 'b')?._priority
+        .skippedCycles
+    ).toBe(0);
+  });
+
+  it('should fill in default weights for partial options', () => {
+    const scheduler = new MarketScheduler({ weights: { volume: 0 } });
+    const [first] = scheduler.schedule(
+      [
+        market('busy', { volume: 10000 }),
+        market('soon', {
+          volume: 1,
+          endTimestamp: (NOW + DAY) / 1000,
+        }),
+      ],
+      1,
+      NOW
+    );
+    expect(first.id).toBe('soon');
+  });
+});
@@ -1,7 +1,6 @@
 import { describe, expect, it, spyOn, beforeEach, afterEach, beforeAll, afterAll } from 'bun:test';
 import plugin from '../plugin';
 import { ModelType, logger } from '@elizaos/core';
-import { StarterService } from '../plugin';
 import dotenv from 'dotenv';
 
 // Setup environment variables
@@ -58,19 +57,6 @@ function documentTestResult(testName: string, result: any, error: Error | null =
 function createRealRuntime() {
   const services = new Map();
 
-  // Create a real service instance if needed
-  const createService = (serviceType: string) => {
-    if (serviceType === StarterService.serviceType) {
-      return new StarterService({
-        character: {
-          name: 'Test Character',
-          system: 'You are a helpful assistant for testing.',
-        },
-      } as any);
-    }
-    return null;
-  };
-
   return {
     character: {
       name: 'Test Character',
@@ -86,14 +72,7 @@ function createRealRuntime() {
       delete: async (key: string) => true,
       getKeys: async (pattern: string) => [],
     },
-    getService: (serviceType: string) => {
-      // Get from cache or create new
-      if (!services.has(serviceType)) {
-        services.set(serviceType, createService(serviceType));
-      }
-
-      return services.get(serviceType);
-    },
+    getService: (serviceType: string) => services.get(serviceType) ?? null,
     registerService: (serviceType: string, service: any) => {
       services.set(serviceType, service);
     },
@@ -238,156 +217,3 @@ describe('Plugin Models', () => {
     }
   });
 });
-
-describe('StarterService', () => {
-  it('should start the service', async () => {
-    const runtime = createRealRuntime();
-    let startResult;
-    let error: Error | null = null;
-
-    try {
-      logger.info('Using OpenAI for TEXT_SMALL model');
-      startResult = await StarterService.start(runtime as any);
-
-      expect(startResult).toBeDefined();
-      expect(startResult.constructor.name).toBe('StarterService');
-
-      // Test real functionality - check stop method is available
-      expect(typeof startResult.stop).toBe('function');
-    } catch (e) {
-      error = e as Error;
-      logger.error({ error: e }, 'Service start error:');
-    }
-
-    documentTestResult(
-      'StarterService start',
-      {
-        success: !!startResult,
-        serviceType: startResult?.constructor.name,
-      },
-      error
-    );
-  });
-
-  it('should throw an error on startup if the service is already registered', async () => {
-    const runtime = createRealRuntime();
-
-    // First registration should succeed
-    const result1 = await StarterService.start(runtime as any);
-    expect(result1).toBeTruthy();
-
-    let startupError: Error | null = null;
-
-    try {
-      // Second registration should fail
-      await StarterService.start(runtime as any);
-      expect(true).toBe(false); // Should not reach here
-    } catch (e) {
-      startupError = e as Error;
-      expect(e).toBeTruthy();
-    }
-
-    documentTestResult(
-      'StarterService double start',
-      {
-        errorThrown: !!startupError,
-        errorMessage: startupError?.message || 'No error message',
-      },
-      startupError
-    );
-  });
-
-  it('should stop the service', async () => {
-    const runtime = createRealRuntime();
-    let error: Error | null = null;
-
-    try {
-      // Register a real service first
-      const service = new StarterService(runtime as any);
-      runtime.registerService(StarterService.serviceType, service);
-
-      // Spy on the real service's stop method
-      const stopSpy = spyOn(service, 'stop');
-
-      // Call the static stop method
-      await StarterService.stop(runtime as any);
-
-      // Verify the service's stop method was called
-      expect(stopSpy).toHaveBeenCalled();
-    } catch (e) {
-      error = e as Error;
-      logger.error({ error: e }, 'Service stop error:');
-    }
-
-    documentTestResult(
-      'StarterService stop',
-      {
-        success: !error,
-      },
-      error
-    );
-  });
-
-  it('should throw an error when stopping a non-existent service', async () => {
-    const runtime = createRealRuntime();
-    // Don't register a service, so getService will return null
-
-    let error: Error | null = null;
-
-    try {
-      // We'll patch the getService function to ensure it returns null
-      const originalGetService = runtime.getService;
-      runtime.getService = () => null;
-
-      await StarterService.stop(runtime as any);
-      // Should not reach here
-      expect(true).toBe(false);
-    } catch (e) {
-      error = e as Error;
-      // This is expected - verify it's the right error
-      expect(error).toBeTruthy();
-      if (error instanceof Error) {
-        expect(error.message).toContain('Starter service not found');
-      }
-    }
-
-    documentTestResult(
-      'StarterService non-existent stop',
-      {
-        errorThrown: !!error,
-        errorMessage: error?.message || 'No error message',
-      },
-      error
-    );
-  });
-
-  it('should stop a registered service', async () => {
-    const runtime = createRealRuntime();
-
-    // First start the service
-    const startResult = await StarterService.start(runtime as any);
-    expect(startResult).toBeTruthy();
-
-    let stopError: Error | unknown = null;
-    let stopSuccess = false;
-
-    try {
-      // Then stop it
-      await StarterService.stop(runtime as any);
-      stopSuccess = true;
-    } catch (e) {
-      stopError = e;
-      expect(true).toBe(false); // Should not reach here
-    }
-
-    documentTestResult(
-      'StarterService stop',
-      {
-        success: stopSuccess,
-        errorThrown: !!stopError,
-        errorMessage: stopError instanceof Error ? stopError.message : String(stopError),
-      },
-      stopError instanceof Error ? stopError : null
-    );
-  });
-});
@@ -0,0 +1,132 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { character } from '../character';
+import {
+  buildPredictionPrompt,
+  PredictionEngine,
+} from '../services/predictionEngine';
+
+const market = {
+  question: 'Will it rain tomorrow?',
+  currentPrice: 42,
+  volume: 1000,
+  endTimestamp: 1760000000,
+};
+
+describe('buildPredictionPrompt', () => {
+  it("should use the character's system prompt and style rules", () => {
+    const prompt = buildPredictionPrompt(character, market);
+
+    expect(prompt).toStartWith(character.system!);
+    for (const rule of character.style!.all!) {
+      expect(prompt).toContain(`- ${rule}`);
+    }
+    expect(prompt).toContain('Market Question: Will it rain tomorrow?');
+    expect(prompt).toContain('Current Market Price: 42% YES');
+    expect(prompt).toContain(
+      `End Date: ${new Date(1760000000 * 1000).toISOString()}`
+    );
+  });
+
+  it('should fall back to the character name without a system prompt', () => {
+    const prompt = buildPredictionPrompt({ name: 'Oracle' } as any, {
+      ...market,
+      currentPrice: null,
+      endTimestamp: null,
+    });
+
+    expect(prompt).toStartWith('You are Oracle, a prediction market analyst.');
+    expect(prompt).not.toContain('Style:');
+    expect(prompt).toContain('Current Market Price: 50% YES');
+    expect(prompt).toContain('End Date: unknown');
+  });
+});
+
+describe('PredictionEngine', () => {
+  it("should predict with the runtime character's prompt", async () => {
+    const useModel = mock(async () => ({
+      probability: 30,
+      reasoning: 'dry front moving in',
+      confidence: 0.6,
+    }));
+    const engine = new PredictionEngine({ character, useModel } as any);
+
+    const prediction = await engine.predict(market);
+
+    expect(prediction.probability).toBe(30);
+    expect(prediction.promptVersion).toBe('default-v1');
+    expect(prediction.ensemble).toBeNull();
+    expect((useModel.mock.calls[0] as any[])[1].prompt).toBe(
+      buildPredictionPrompt(character, market)
+    );
+  });
+
+  it('should use the template from character settings and report its version', async () => {
+    const useModel = mock(async () => ({
+      probability: 30,
+      reasoning: 'dry front moving in',
+      confidence: 0.6,
+    }));
+    const engine = new PredictionEngine({
+      character: {
+        ...character,
+        settings: {
+          predictionPrompt: {
+            version: 'terse-2',
+            template: '{{question}} ({{currentPrice}}%)',
+          },
+        },
+      },
+      useModel,
+    } as any);
+
+    const prediction = await engine.predict(market);
+
+    expect(prediction.promptVersion).toBe('terse-2');
+    expect((useModel.mock.calls[0] as any[])[1].prompt).toBe(
+      'Will it rain tomorrow? (42%)'
+    );
+  });
+
+  it('should reject bad research settings once, at initialization', async () => {
+    const useModel = mock(async () => ({
+      probability: 30,
+      reasoning: 'dry front moving in',
+      confidence: 0.6,
+    }));
+    const engine = new PredictionEngine({
+      character: { ...character, settings: { research: { provider: 'rss' } } },
+      useModel,
+    } as any);
+
+    expect(() => engine.initialize()).toThrow(
+      'Unknown research provider "rss"'
+    );
+    // Predictions go ahead without research instead of failing every time
+    const prediction = await engine.predict(market);
+    expect(prediction.probability).toBe(30);
+    expect(prediction.sources).toEqual([]);
+  });
+
+  it('should pool an ensemble when configured with several samples', async () => {
+    const outputs = [20, 30, 70].map(probability => ({
+      probability,
+      reasoning: `sampled ${probability}`,
+      confidence: 0.9,
+    }));
+    const useModel = mock(async () => outputs.shift());
+    const engine = new PredictionEngine({
+      character: {
+        ...character,
+        settings: { ensemble: { samples: 3, aggregation: 'median' } },
+      },
+      useModel,
+    } as any);
+
+    const prediction = await engine.predict(market);
+
+    expect(useModel).toHaveBeenCalledTimes(3);
+    expect(prediction.probability).toBe(30);
+    expect(prediction.reasoning).toBe('sampled 30');
+    expect(prediction.ensemble?.samples).toHaveLength(3);
+  });
+});
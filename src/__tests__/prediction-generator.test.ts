@@ -0,0 +1,118 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { ModelType } from '@elizaos/core';
+import { generateStructuredPrediction } from '../services/predictionGenerator';
+import { ModelUsageTracker } from '../services/modelUsage';
+
+// Runtime whose useModel answers with the given outputs in order
+function createRuntime(...outputs: unknown[]) {
+  const useModel = mock(async () => outputs.shift());
+  return { runtime: { useModel } as any, useModel };
+}
+
+describe('generateStructuredPrediction', () => {
+  it('should request a structured object and return the validated prediction', async () => {
+    const { runtime, useModel } = createRuntime({
+      probability: 65,
+      reasoning: 'polls tightening',
+      confidence: 0.7,
+    });
+
+    const prediction = await generateStructuredPrediction(runtime, 'prompt');
+
+    expect(prediction).toEqual({
+      probability: 65,
+      reasoning: 'polls tightening',
+      confidence: 0.7,
+    });
+    expect(useModel).toHaveBeenCalledTimes(1);
+    expect((useModel.mock.calls[0] as any[])[0]).toBe(ModelType.OBJECT_SMALL);
+  });
+
+  it('should accept a 0% probability', async () => {
+    const { runtime } = createRuntime({
+      probability: 0,
+      reasoning: 'already ruled out',
+      confidence: 0.9,
+    });
+
+    const prediction = await generateStructuredPrediction(runtime, 'prompt');
+    expect(prediction.probability).toBe(0);
+  });
+
+  it('should accept numeric strings', async () => {
+    const { runtime } = createRuntime({
+      probability: '42.5',
+      reasoning: 'coin flip',
+      confidence: '0.5',
+    });
+
+    expect(await generateStructuredPrediction(runtime, 'prompt')).toMatchObject(
+      {
+        probability: 42.5,
+        confidence: 0.5,
+      }
+    );
+  });
+
+  it('should retry with a repair prompt when the output is out of bounds', async () => {
+    const { runtime, useModel } = createRuntime(
+      { probability: 65, reasoning: 'too sure', confidence: 70 },
+      { probability: 65, reasoning: 'fixed', confidence: 0.7 }
+    );
+
+    const prediction = await generateStructuredPrediction(runtime, 'prompt');
+
+    expect(prediction.reasoning).toBe('fixed');
+    expect(useModel).toHaveBeenCalledTimes(2);
+    const repairPrompt = (useModel.mock.calls[1] as any[])[1].prompt;
+    expect(repairPrompt).toStartWith('prompt');
+    expect(repairPrompt).toContain('confidence:');
+    expect(repairPrompt).toContain('"confidence":70');
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    const { runtime, useModel } = createRuntime(
+      { probability: 150, reasoning: 'x', confidence: 0.5 },
+      { probability: null, reasoning: '', confidence: 0.5 },
+      { probability: 50, reasoning: 'never reached', confidence: 0.5 }
+    );
+
+    await expect(
+      generateStructuredPrediction(runtime, 'prompt', { maxAttempts: 2 })
+    ).rejects.toThrow(/did not return a valid prediction after 2 attempts/);
+    expect(useModel).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject missing fields', async () => {
+    const { runtime } = createRuntime(
+      { reasoning: 'no numbers' },
+      { reasoning: 'still no numbers' }
+    );
+
+    await expect(
+      generateStructuredPrediction(runtime, 'prompt')
+    ).rejects.toThrow(/probability/);
+  });
+
+  it('should count every call, including repairs, in the usage tracker', async () => {
+    const { runtime } = createRuntime(
+      { probability: 65, reasoning: 'too sure', confidence: 70 },
+      { probability: 65, reasoning: 'fixed', confidence: 0.7 }
+    );
+    const usage = new ModelUsageTracker();
+
+    await generateStructuredPrediction(runtime, 'x'.repeat(400), { usage });
+
+    const snapshot = usage.snapshot({ promptPer1k: 1, completionPer1k: 2 });
+    expect(snapshot.calls).toBe(2);
+    // The repair prompt repeats the original prompt
+    expect(snapshot.promptTokens).toBeGreaterThan(200);
+    expect(snapshot.totalTokens).toBe(
+      snapshot.promptTokens + snapshot.completionTokens
+    );
+    expect(snapshot.estimatedCost).toBeCloseTo(
+      snapshot.promptTokens / 1000 + (2 * snapshot.completionTokens) / 1000,
+      10
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  adjustProbability,
+  DEFAULT_ADJUSTMENT_SETTINGS,
+  validateAdjustmentSettings,
+} from '../utils/probabilityAdjustment';
+
+const settings = (overrides: Partial<typeof DEFAULT_ADJUSTMENT_SETTINGS>) => ({
+  ...DEFAULT_ADJUSTMENT_SETTINGS,
+  ...overrides,
+});
+
+describe('adjustProbability', () => {
+  it('should leave the probability alone by default and record that', () => {
+    expect(adjustProbability(72, 40)).toEqual({
+      probability: 72,
+      adjustment: {
+        modelProbability: 72,
+        marketPrice: 40,
+        marketWeight: 0,
+        extremizeFactor: 1,
+        minProbability: 0,
+        maxProbability: 100,
+      },
+    });
+  });
+
+  it('should blend with the market price by weight', () => {
+    expect(
+      adjustProbability(80, 40, settings({ marketWeight: 0.25 })).probability
+    ).toBe(70);
+  });
+
+  it('should skip the blend when the market has no price', () => {
+    const { probability, adjustment } = adjustProbability(
+      80,
+      null,
+      settings({ marketWeight: 0.5 })
+    );
+    expect(probability).toBe(80);
+    expect(adjustment).toMatchObject({ marketPrice: null, marketWeight: 0 });
+  });
+
+  it('should extremize and shrink in log-odds space', () => {
+    // 75% is 3:1 odds; doubling the log-odds gives 9:1
+    expect(
+      adjustProbability(75, null, settings({ extremizeFactor: 2 })).probability
+    ).toBe(90);
+    // and halving them gives sqrt(3):1
+    expect(
+      adjustProbability(75, null, settings({ extremizeFactor: 0.5 }))
+        .probability
+    ).toBe(63.4);
+    expect(
+      adjustProbability(50, null, settings({ extremizeFactor: 3 })).probability
+    ).toBe(50);
+  });
+
+  it('should clamp to the configured bounds after extremizing', () => {
+    const bounded = settings({
+      extremizeFactor: 3,
+      minProbability: 5,
+      maxProbability: 95,
+    });
+    expect(adjustProbability(90, null, bounded).probability).toBe(95);
+    expect(adjustProbability(0, null, bounded).probability).toBe(5);
+  });
+});
+
+describe('validateAdjustmentSettings', () => {
+  it('should accept the defaults', () => {
+    expect(() =>
+      validateAdjustmentSettings(DEFAULT_ADJUSTMENT_SETTINGS)
+    ).not.toThrow();
+  });
+
+  it('should reject out-of-range settings', () => {
+    expect(() =>
+      validateAdjustmentSettings(settings({ marketWeight: 1.5 }))
+    ).toThrow(/marketWeight/);
+    expect(() =>
+      validateAdjustmentSettings(settings({ extremizeFactor: 0 }))
+    ).toThrow(/extremizeFactor/);
+    expect(() =>
+      validateAdjustmentSettings(
+        settings({ minProbability: 60, maxProbability: 40 })
+      )
+    ).toThrow(/bounds/);
+    expect(() =>
+      validateAdjustmentSettings(settings({ marketWeight: NaN }))
+    ).toThrow(/marketWeight/);
+  });
+});
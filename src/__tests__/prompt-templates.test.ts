@@ -0,0 +1,105 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  loadTemplateFromDirectory,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+} from '../services/promptTemplates';
+
+const variables = {
+  system: 'you are sage',
+  style: '',
+  question: 'Will it rain?',
+  currentPrice: '42',
+  volume: '1000',
+  endDate: 'unknown',
+  recentNews: 'none',
+};
+
+const templatesDir = mkdtempSync(join(tmpdir(), 'sage-templates-'));
+writeFileSync(join(templatesDir, 'v2.md'), 'v2: {{question}}');
+writeFileSync(join(templatesDir, 'v10.md'), 'v10: {{question}}');
+writeFileSync(join(templatesDir, 'notes.json'), '{}');
+
+afterAll(() => {
+  rmSync(templatesDir, { recursive: true, force: true });
+});
+
+describe('renderPromptTemplate', () => {
+  it('should fill known placeholders and keep unknown ones', () => {
+    expect(
+      renderPromptTemplate(
+        'Q: {{question}} at {{ currentPrice }}% {{typo}}',
+        variables
+      )
+    ).toBe('Q: Will it rain? at 42% {{typo}}');
+  });
+
+  it('should render every placeholder in the default template', () => {
+    const prompt = renderPromptTemplate(
+      DEFAULT_PROMPT_TEMPLATE.template,
+      variables
+    );
+    expect(prompt).not.toMatch(/\{\{\w+\}\}/);
+  });
+});
+
+describe('loadTemplateFromDirectory', () => {
+  it('should pick the highest version by natural order', () => {
+    expect(loadTemplateFromDirectory(templatesDir)).toEqual({
+      version: 'v10',
+      template: 'v10: {{question}}',
+    });
+  });
+
+  it('should load a requested version', () => {
+    expect(loadTemplateFromDirectory(templatesDir, 'v2').version).toBe('v2');
+  });
+
+  it('should fail clearly for missing versions and directories', () => {
+    expect(() => loadTemplateFromDirectory(templatesDir, 'v3')).toThrow(
+      /No template "v3" found/
+    );
+    expect(() =>
+      loadTemplateFromDirectory(join(templatesDir, 'missing'))
+    ).toThrow(/Templates directory .* not found/);
+  });
+});
+
+describe('resolvePromptTemplate', () => {
+  it('should default to the built-in template', () => {
+    expect(resolvePromptTemplate({ name: 'Sage' } as any, {})).toBe(
+      DEFAULT_PROMPT_TEMPLATE
+    );
+  });
+
+  it('should prefer an inline template from character settings', () => {
+    const character = {
+      name: 'Sage',
+      settings: {
+        predictionPrompt: { version: 'inline-1', template: '{{question}}' },
+      },
+    } as any;
+    expect(
+      resolvePromptTemplate(character, {
+        PREDICTION_TEMPLATES_DIR: templatesDir,
+      })
+    ).toEqual({ version: 'inline-1', template: '{{question}}' });
+  });
+
+  it('should load from the templates directory in settings or env', () => {
+    const character = {
+      name: 'Sage',
+      settings: { predictionPrompt: { templatesDir, version: 'v2' } },
+    } as any;
+    expect(resolvePromptTemplate(character, {}).version).toBe('v2');
+    expect(
+      resolvePromptTemplate({ name: 'Sage' } as any, {
+        PREDICTION_TEMPLATES_DIR: templatesDir,
+      }).version
+    ).toBe('v10');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'bun:test';
+import { ReattestationPolicy } from '../services/reattestationPolicy';
+
+const NOW = Date.parse('2025-06-01T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const market = (overrides: Record<string, unknown> = {}) => ({
+  category: null,
+  endTimestamp: (NOW + 30 * DAY) / 1000,
+  ...overrides,
+});
+
+describe('ReattestationPolicy', () => {
+  it('should keep the 24 hour rule by default', () => {
+    const policy = new ReattestationPolicy();
+
+    expect(policy.evaluate(market(), NOW - 23 * HOUR, NOW)).toMatchObject({
+      action: 'skip',
+    });
+    expect(policy.evaluate(market(), NOW - 25 * HOUR, NOW)).toEqual({
+      action: 'check',
+      threshold: 10,
+      elapsedHours: 25,
+    });
+    // No staleness limit unless configured
+    expect(policy.evaluate(market(), NOW - 365 * DAY, NOW).action).toBe(
+      'check'
+    );
+  });
+
+  it('should use the configured interval and change threshold', () => {
+    const policy = new ReattestationPolicy({
+      minInterval: 6 * HOUR,
+      probabilityChangeThreshold: 5,
+    });
+
+    expect(policy.evaluate(market(), NOW - 7 * HOUR, NOW)).toMatchObject({
+      action: 'check',
+      threshold: 5,
+    });
+  });
+
+  it('should force a re-attestation after max staleness', () => {
+    const policy = new ReattestationPolicy({ maxStaleness: 7 * DAY });
+
+    const decision = policy.evaluate(market(), NOW - 8 * DAY, NOW);
+
+    expect(decision.action).toBe('reattest');
+    expect(decision).toMatchObject({
+      reason: expect.stringContaining('max staleness of 168.0h'),
+    });
+  });
+
+  it('should tighten the interval as the market nears its end', () => {
+    const policy = new ReattestationPolicy({
+      closingIntervals: [
+        { within: 2 * DAY, minInterval: 6 * HOUR },
+        { within: 6 * HOUR, minInterval: HOUR },
+      ],
+    });
+    const lastAttestedAt = NOW - 2 * HOUR;
+
+    expect(policy.evaluate(market(), lastAttestedAt, NOW).action).toBe('skip');
+    expect(
+      policy.evaluate(
+        market({ endTimestamp: (NOW + DAY) / 1000 }),
+        lastAttestedAt,
+        NOW
+      ).action
+    ).toBe('skip');
+    expect(
+      policy.evaluate(
+        market({ endTimestamp: (NOW + 3 * HOUR) / 1000 }),
+        lastAttestedAt,
+        NOW
+      ).action
+    ).toBe('check');
+  });
+
+  it('should apply per-category overrides case-insensitively', () => {
+    const policy = new ReattestationPolicy({
+      maxStaleness: 7 * DAY,
+      categories: {
+        Crypto: { minInterval: 4 * HOUR, probabilityChangeThreshold: 3 },
+      },
+    });
+
+    expect(
+      policy.evaluate(market({ category: 'crypto' }), NOW - 5 * HOUR, NOW)
+    ).toMatchObject({ action: 'check', threshold: 3 });
+    // Unlisted categories and inherited settings use the top-level rules
+    expect(
+      policy.evaluate(market({ category: 'weather' }), NOW - 5 * HOUR, NOW)
+        .action
+    ).toBe('skip');
+    expect(policy.rulesFor({ category: 'CRYPTO' }).maxStaleness).toBe(7 * DAY);
+  });
+
+  it('should reject inconsistent rules', () => {
+    expect(
+      () => new ReattestationPolicy({ minInterval: DAY, maxStaleness: HOUR })
+    ).toThrow(/maxStaleness must be at least minInterval/);
+    expect(
+      () =>
+        new ReattestationPolicy({
+          categories: { sports: { probabilityChangeThreshold: -1 } },
+        })
+    ).toThrow(/reattestation\.categories\.sports\.probabilityChangeThreshold/);
+    expect(
+      () =>
+        new ReattestationPolicy({
+          closingIntervals: [{ within: 0, minInterval: HOUR }],
+        })
+    ).toThrow(/closingIntervals/);
+  });
+});
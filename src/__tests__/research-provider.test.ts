@@ -0,0 +1,260 @@
+import { afterAll, beforeAll, describe, expect, it, mock } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createResearchProvider,
+  FeedResearchProvider,
+  formatResearch,
+  HttpSearchResearchProvider,
+  parseRssFeed,
+  rankSnippets,
+} from '../services/researchProvider';
+import { PredictionEngine } from '../services/predictionEngine';
+
+const RSS = `<?xml version="1.0"?>
+<rss><channel>
+  <title>Macro Wire</title>
+  <item>
+    <title><![CDATA[Fed signals rate cut in September]]></title>
+    <link>https://example.com/fed-cut</link>
+    <description>Officials point to &lt;cooling&gt; inflation &amp; jobs data.</description>
+    <pubDate>Mon, 01 Sep 2025 12:00:00 GMT</pubDate>
+  </item>
+  <item>
+    <title>Local team wins championship</title>
+    <link>https://example.com/sports</link>
+    <description>Unrelated sports story.</description>
+  </item>
+</channel></rss>`;
+
+const JSON_FEED = [
+  {
+    title: 'Fed minutes show split on rate cut',
+    snippet: 'Several members favored waiting.',
+    url: 'https://example.com/minutes',
+    source: 'Wire',
+    publishedAt: '2025-08-20T00:00:00Z',
+  },
+];
+
+const dir = mkdtempSync(join(tmpdir(), 'sage-research-'));
+const rssPath = join(dir, 'news.xml');
+const jsonPath = join(dir, 'news.json');
+writeFileSync(rssPath, RSS);
+writeFileSync(jsonPath, JSON.stringify(JSON_FEED));
+
+// Mock search server standing in for a hosted search API
+let server: ReturnType<typeof Bun.serve>;
+const searchRequests: URL[] = [];
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      searchRequests.push(url);
+      if (req.headers.get('authorization') !== 'Bearer secret') {
+        return new Response('unauthorized', { status: 401 });
+      }
+      return Response.json({
+        results: [
+          {
+            title: `Result for ${url.searchParams.get('q')}`,
+            description: 'search snippet',
+            link: 'https://example.com/result',
+          },
+        ],
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('feed research', () => {
+  it('should parse RSS items with CDATA and entities', () => {
+    const [item] = parseRssFeed(RSS, rssPath);
+    expect(item).toEqual({
+      title: 'Fed signals rate cut in September',
+      snippet: 'Officials point to <cooling> inflation & jobs data.',
+      url: 'https://example.com/fed-cut',
+      source: 'Macro Wire',
+      publishedAt: Date.parse('2025-09-01T12:00:00Z'),
+    });
+  });
+
+  it('should return relevant items from RSS and JSON feeds, best match first', async () => {
+    const provider = new FeedResearchProvider([
+      rssPath,
+      jsonPath,
+      join(dir, 'missing.xml'),
+    ]);
+
+    const snippets = await provider.gather(
+      'Will the Fed announce a rate cut in September?',
+      5
+    );
+
+    expect(snippets.map(s => s.title)).toEqual([
+      'Fed signals rate cut in September',
+      'Fed minutes show split on rate cut',
+    ]);
+  });
+
+  it('should rank by relevance and then recency', () => {
+    const base = { snippet: '', url: null, source: 'x' };
+    const ranked = rankSnippets(
+      'bitcoin price above 100k',
+      [
+        { ...base, title: 'bitcoin dips', publishedAt: 2 },
+        { ...base, title: 'bitcoin price rallies', publishedAt: 1 },
+        { ...base, title: 'bitcoin weekly', publishedAt: 3 },
+        { ...base, title: 'nothing relevant', publishedAt: 4 },
+      ],
+      3
+    );
+    expect(ranked.map(s => s.title)).toEqual([
+      'bitcoin price rallies',
+      'bitcoin weekly',
+      'bitcoin dips',
+    ]);
+  });
+
+  it('should number snippets with their sources for the prompt', () => {
+    expect(
+      formatResearch([
+        {
+          title: 'Fed signals cut',
+          snippet: 'cooling inflation',
+          url: 'https://example.com/a',
+          source: 'Macro Wire',
+          publishedAt: Date.parse('2025-09-01T00:00:00Z'),
+        },
+      ])
+    ).toBe(
+      '[1] Fed signals cut (Macro Wire, 2025-09-01): cooling inflation\n    https://example.com/a'
+    );
+  });
+});
+
+describe('HTTP search research', () => {
+  it('should query the search API with the question and API key', async () => {
+    const provider = new HttpSearchResearchProvider(
+      `http://localhost:${server.port}/search`,
+      'secret'
+    );
+
+    const [result] = await provider.gather('Will it rain?', 3);
+
+    expect(result).toMatchObject({
+      title: 'Result for Will it rain?',
+      snippet: 'search snippet',
+      url: 'https://example.com/result',
+      source: 'localhost',
+    });
+    const request = searchRequests[searchRequests.length - 1];
+    expect(request.searchParams.get('limit')).toBe('3');
+  });
+
+  it('should fail on error responses', async () => {
+    const provider = new HttpSearchResearchProvider(
+      `http://localhost:${server.port}/search`
+    );
+    await expect(provider.gather('Will it rain?', 3)).rejects.toThrow(
+      /Search API returned 401/
+    );
+  });
+});
+
+describe('createResearchProvider', () => {
+  it('should be disabled by default', () => {
+    expect(createResearchProvider({}, {})).toBeNull();
+  });
+
+  it('should build backends from settings or env', () => {
+    expect(
+      createResearchProvider({ provider: 'feed', feedPaths: [rssPath] }, {})
+    ).toBeInstanceOf(FeedResearchProvider);
+    expect(
+      createResearchProvider(
+        {},
+        { RESEARCH_PROVIDER: 'http', RESEARCH_SEARCH_URL: 'http://x/search' }
+      )
+    ).toBeInstanceOf(HttpSearchResearchProvider);
+  });
+
+  it('should reject incomplete or unknown configuration', () => {
+    expect(() => createResearchProvider({ provider: 'feed' }, {})).toThrow(
+      /feedPaths/
+    );
+    expect(() => createResearchProvider({ provider: 'http' }, {})).toThrow(
+      /searchUrl/
+    );
+    expect(() =>
+      createResearchProvider({ provider: 'bing' as any }, {})
+    ).toThrow(/Unknown research provider "bing"/);
+  });
+});
+
+describe('PredictionEngine research', () => {
+  const market = {
+    question: 'Will the Fed announce a rate cut in September?',
+    currentPrice: 60,
+    volume: 100,
+    endTimestamp: null,
+  };
+
+  function createEngine(research: Record<string, unknown>) {
+    const useModel = mock(async () => ({
+      probability: 70,
+      reasoning: 'fed telegraphing a cut',
+      confidence: 0.6,
+    }));
+    const engine = new PredictionEngine({
+      character: {
+        name: 'Sage',
+        system: 'you are sage',
+        settings: { research },
+      },
+      useModel,
+    } as any);
+    return { engine, useModel };
+  }
+
+  it('should put research in the prompt and return the cited sources', async () => {
+    const { engine, useModel } = createEngine({
+      provider: 'feed',
+      feedPaths: [rssPath],
+    });
+
+    const prediction = await engine.predict(market);
+
+    const prompt = (useModel.mock.calls[0] as any[])[1].prompt;
+    expect(prompt).toContain('[1] Fed signals rate cut in September');
+    expect(prediction.sources).toEqual([
+      {
+        title: 'Fed signals rate cut in September',
+        url: 'https://example.com/fed-cut',
+        source: 'Macro Wire',
+      },
+    ]);
+  });
+
+  it('should predict without research when the backend fails', async () => {
+    const { engine, useModel } = createEngine({
+      provider: 'http',
+      searchUrl: `http://localhost:${server.port}/search`,
+    });
+
+    const prediction = await engine.predict(market);
+
+    expect(prediction.sources).toEqual([]);
+    expect((useModel.mock.calls[0] as any[])[1].prompt).toContain(
+      'No recent news gathered.'
+    );
+  });
+});
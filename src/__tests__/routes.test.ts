@@ -1,79 +1,201 @@
-import { describe, expect, it, mock } from 'bun:test';
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
 import plugin from '../plugin';
+import {
+  AttestationService,
+  MarketNotFoundError,
+  UnfundedWalletError,
+} from '../services/attestationService';
+
+function createResponse() {
+  const res: any = {};
+  res.status = mock(() => res);
+  res.json = mock(() => res);
+  res.send = mock(() => res);
+  res.end = mock(() => res);
+  return res;
+}
+
+function findRoute(type: string, path: string) {
+  const route = plugin.routes?.find((r) => r.type === type && r.path === path);
+  if (!route?.handler) {
+    throw new Error(`Route ${type} ${path} not found`);
+  }
+  return route;
+}
 
 describe('Plugin Routes', () => {
+  const status = { isRunning: false, dryRun: false };
+  let service: any;
+  let getInstance: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    service = {
+      getStatus: mock(async () => status),
+      getHistory: mock(async () => []),
+      getEligibleMarkets: mock(() => ({ cycleId: 'cycle-1', markets: [] })),
+      startAutonomous: mock(async () => {}),
+      stopAutonomous: mock(async () => {}),
+      attestMarketById: mock(async (marketId: string) => ({ marketId, probability: 65 })),
+    };
+    getInstance = spyOn(AttestationService, 'getInstance').mockReturnValue(service);
+  });
+
+  afterEach(() => {
+    getInstance.mockRestore();
+  });
+
   it('should have routes defined', () => {
-    expect(plugin.routes).toBeDefined();
-    if (plugin.routes) {
-      expect(Array.isArray(plugin.routes)).toBe(true);
-      expect(plugin.routes.length).toBeGreaterThan(0);
-    }
+    expect(Array.isArray(plugin.routes)).toBe(true);
+    expect(plugin.routes!.length).toBeGreaterThan(0);
+  });
+
+  it('should validate route structure', () => {
+    plugin.routes!.forEach((route) => {
+      expect(route.path.startsWith('/sage/')).toBe(true);
+      expect(['GET', 'POST']).toContain(route.type);
+      expect(typeof route.handler).toBe('function');
+    });
+  });
+
+  it('should have unique route paths', () => {
+    const paths = plugin.routes!.map((route) => route.path);
+    expect(paths.length).toBe(new Set(paths).size);
   });
 
-  it('should have a route for /helloworld', () => {
-    if (plugin.routes) {
-      const helloWorldRoute = plugin.routes.find((route) => route.path === '/helloworld');
-      expect(helloWorldRoute).toBeDefined();
+  it('should return the service status', async () => {
+    const res = createResponse();
+    await findRoute('GET', '/sage/status').handler!({}, res, {} as any);
+    expect(res.json).toHaveBeenCalledWith(status);
+  });
 
-      if (helloWorldRoute) {
-        expect(helloWorldRoute.type).toBe('GET');
-        expect(typeof helloWorldRoute.handler).toBe('function');
-      }
-    }
+  it('should pass history limit and paper flag through', async () => {
+    const res = createResponse();
+    await findRoute('GET', '/sage/history').handler!(
+      { query: { limit: '500', paper: 'true' } },
+      res,
+      {} as any,
+    );
+    expect(service.getHistory).toHaveBeenCalledWith(100, { paper: true });
   });
 
-  it('should handle route requests correctly', async () => {
-    if (plugin.routes) {
-      const helloWorldRoute = plugin.routes.find((route) => route.path === '/helloworld');
+  it('should default the history limit', async () => {
+    await findRoute('GET', '/sage/history').handler!(
+      { query: { limit: 'lots' } },
+      createResponse(),
+      {} as any,
+    );
+    expect(service.getHistory).toHaveBeenCalledWith(10, { paper: false });
+  });
 
-      if (helloWorldRoute && helloWorldRoute.handler) {
-        // Create mock request and response objects
-        const mockReq = {};
-        const mockRes = {
-          json: mock(),
-        };
+  it('should return eligible markets for the current cycle', async () => {
+    const res = createResponse();
+    await findRoute('GET', '/sage/markets/eligible').handler!({}, res, {} as any);
+    expect(res.json).toHaveBeenCalledWith({ cycleId: 'cycle-1', markets: [] });
+  });
 
-        // Mock runtime object as third parameter
-        const mockRuntime = {} as any;
+  it('should start and stop autonomous mode', async () => {
+    const running = { isRunning: true, dryRun: false };
+    service.startAutonomous = mock(async () => {
+      service.getStatus = mock(async () => running);
+    });
+    const started = createResponse();
+    await findRoute('POST', '/sage/autonomous/start').handler!({}, started, {} as any);
+    expect(service.startAutonomous).toHaveBeenCalledTimes(1);
+    // Answered once the loop is running
+    expect(started.json).toHaveBeenCalledWith(running);
+    service.getStatus = mock(async () => status);
 
-        // Call the route handler
-        await helloWorldRoute.handler(mockReq, mockRes, mockRuntime);
+    const res = createResponse();
+    await findRoute('POST', '/sage/autonomous/stop').handler!({}, res, {} as any);
+    expect(service.stopAutonomous).toHaveBeenCalledTimes(1);
+    expect(res.json).toHaveBeenCalledWith(status);
+  });
 
-        // Verify response
-        expect(mockRes.json).toHaveBeenCalledTimes(1);
-        expect(mockRes.json).toHaveBeenCalledWith({
-          message: 'Hello World!',
-        });
-      }
-    }
+  it('should refuse to start autonomous mode with an unfunded wallet', async () => {
+    service.startAutonomous = mock(async () => {
+      throw new UnfundedWalletError('0x1', 42161);
+    });
+    const res = createResponse();
+
+    await findRoute('POST', '/sage/autonomous/start').handler!({}, res, {} as any);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith({
+      error:
+        '[AttestationService] Wallet 0x1 has no ETH on chain 42161 - fund it before running autonomous mode live',
+    });
   });
 
-  it('should validate route structure', () => {
-    if (plugin.routes) {
-      // Validate each route
-      plugin.routes.forEach((route) => {
-        expect(route).toHaveProperty('path');
-        expect(route).toHaveProperty('type');
-        expect(route).toHaveProperty('handler');
+  it('should attest to the requested market', async () => {
+    const res = createResponse();
+    await findRoute('POST', '/sage/attest/:marketId').handler!(
+      { params: { marketId: '7' } },
+      res,
+      {} as any,
+    );
+    expect(service.attestMarketById).toHaveBeenCalledWith('7');
+    expect(res.json).toHaveBeenCalledWith({ marketId: '7', probability: 65 });
+  });
+
+  it('should answer 422 when no attestation was made', async () => {
+    service.attestMarketById = mock(async () => null);
+    const res = createResponse();
+    await findRoute('POST', '/sage/attest/:marketId').handler!(
+      { params: { marketId: '7' } },
+      res,
+      {} as any,
+    );
+    expect(res.status).toHaveBeenCalledWith(422);
+  });
 
-        // Path should be a string starting with /
-        expect(typeof route.path).toBe('string');
-        expect(route.path.startsWith('/')).toBe(true);
+  it('should answer 404 for a market that is not active', async () => {
+    service.attestMarketById = mock(async (marketId: string) => {
+      throw new MarketNotFoundError(marketId);
+    });
+    const res = createResponse();
+    await findRoute('POST', '/sage/attest/:marketId').handler!(
+      { params: { marketId: '9' } },
+      res,
+      {} as any,
+    );
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith({
+      error: '[AttestationService] Market 9 not found among active markets',
+    });
+  });
 
-        // Type should be a valid HTTP method
-        expect(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']).toContain(route.type);
+  it('should answer 500 with the error message when the service throws', async () => {
+    service.attestMarketById = mock(async () => {
+      throw new Error('Sapience service not available');
+    });
+    const res = createResponse();
+    await findRoute('POST', '/sage/attest/:marketId').handler!(
+      { params: { marketId: '9' } },
+      res,
+      {} as any,
+    );
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'Sapience service not available',
+    });
+  });
 
-        // Handler should be a function
-        expect(typeof route.handler).toBe('function');
-      });
-    }
+  it('should answer 500 with the error message when a read fails', async () => {
+    service.getStatus = mock(async () => {
+      throw new Error('Failed to read attestation ledger');
+    });
+    const res = createResponse();
+    await findRoute('GET', '/sage/status').handler!({}, res, {} as any);
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'Failed to read attestation ledger',
+    });
   });
 
-  it('should have unique route paths', () => {
-    if (plugin.routes) {
-      const paths = plugin.routes.map((route) => route.path);
-      const uniquePaths = new Set(paths);
-      expect(paths.length).toBe(uniquePaths.size);
-    }
+  it('should answer 503 when the service is not available', async () => {
+    getInstance.mockReturnValue(null);
+    const res = createResponse();
+    await findRoute('GET', '/sage/status').handler!({}, res, {} as any);
+    expect(res.status).toHaveBeenCalledWith(503);
   });
 });
@@ -0,0 +1,209 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { SapienceClient } from '../services/sapienceClient';
+
+// Build a client whose callTool answers with the given payload as MCP text content
+function createClient(payload: unknown) {
+  const callTool = mock(async () => ({
+    content: [
+      {
+        type: 'text',
+        text: typeof payload === 'string' ? payload : JSON.stringify(payload),
+      },
+    ],
+  }));
+  return { client: new SapienceClient({ callTool } as any), callTool };
+}
+
+describe('SapienceClient', () => {
+  describe('listActiveMarkets', () => {
+    it('should normalize ids and market addresses', async () => {
+      const { client, callTool } = createClient([
+        {
+          id: 7,
+          marketId: 3,
+          marketGroupAddress: '0xAbC0000000000000000000000000000000000001',
+          question: 'Will it rain?',
+          currentPrice: '42.5',
+          endTimestamp: 1760000000,
+          somethingNew: true,
+        },
+        {
+          id: '8',
+          contractAddress: '0x0000000000000000000000000000000000000002',
+          question: 'Will it snow?',
+        },
+      ]);
+
+      const markets = await client.listActiveMarkets();
+
+      expect(callTool).toHaveBeenCalledWith(
+        'sapience',
+        'list_active_markets',
+        {}
+      );
+      expect(markets[0]).toEqual({
+        id: '7',
+        marketId: '3',
+        marketAddress: '0xAbC0000000000000000000000000000000000001',
+        question: 'Will it rain?',
+        currentPrice: 42.5,
+        volume: null,
+        endTimestamp: 1760000000,
+        category: null,
+      });
+      // marketId falls back to the API id
+      expect(markets[1].marketId).toBe('8');
+      expect(markets[1].marketAddress).toBe(
+        '0x0000000000000000000000000000000000000002'
+      );
+    });
+
+    it('should read the category from a name or a category object', async () => {
+      const { client } = createClient([
+        { id: 1, contractAddress: '0x1', question: 'A?', category: 'Crypto' },
+        {
+          id: 2,
+          contractAddress: '0x2',
+          question: 'B?',
+          category: { slug: 'economy-finance', name: 'Economy & Finance' },
+        },
+        { id: 3, contractAddress: '0x3', question: 'C?', category: null },
+      ]);
+
+      const markets = await client.listActiveMarkets();
+
+      expect(markets.map(m => m.category)).toEqual([
+        'Crypto',
+        'economy-finance',
+        null,
+      ]);
+    });
+
+    it('should fail clearly when a market has no address', async () => {
+      const { client } = createClient([{ id: 1, question: 'Q?' }]);
+      await expect(client.listActiveMarkets()).rejects.toThrow(
+        /list_active_markets response did not match the expected shape: 0: market 1 has no marketGroupAddress/
+      );
+    });
+
+    it('should fail clearly when the response is not an array', async () => {
+      const { client } = createClient({ markets: [] });
+      await expect(client.listActiveMarkets()).rejects.toThrow(
+        /did not match the expected shape/
+      );
+    });
+
+    it('should fail clearly on non-JSON content', async () => {
+      const { client } = createClient('Internal server error');
+      await expect(client.listActiveMarkets()).rejects.toThrow(
+        /returned non-JSON content: Internal server error/
+      );
+    });
+
+    it('should fail when the tool returns no content', async () => {
+      const client = new SapienceClient({
+        callTool: async () => ({}),
+      } as any);
+      await expect(client.listActiveMarkets()).rejects.toThrow(
+        /returned no text content/
+      );
+    });
+  });
+
+  describe('attestations', () => {
+    const attestations = [
+      {
+        attester: '0xAAAA000000000000000000000000000000000001',
+        marketAddress: '0xBBBB000000000000000000000000000000000002',
+        marketId: 5,
+        prediction: '39614081257132168796771975168',
+        createdAt: '2025-01-01T00:00:00.000Z',
+      },
+      {
+        id: 'uid-2',
+        attester: '0xAAAA000000000000000000000000000000000001',
+        marketAddress: '0xBBBB000000000000000000000000000000000002',
+        marketId: '6',
+        prediction: 1234,
+        comment: 'second',
+        createdAt: '2025-02-01T00:00:00.000Z',
+      },
+    ];
+
+    it('should return attestations by address newest first', async () => {
+      const { client, callTool } = createClient(attestations);
+
+      const result = await client.getAttestationsByAddress('0xaaaa');
+
+      expect(callTool).toHaveBeenCalledWith(
+        'sapience',
+        'get_attestations_by_address',
+        { attesterAddress: '0xaaaa' }
+      );
+      expect(result.map(a => a.marketId)).toEqual(['6', '5']);
+      expect(result[1]).toEqual({
+        id: null,
+        attester: '0xaaaa000000000000000000000000000000000001',
+        marketAddress: '0xbbbb000000000000000000000000000000000002',
+        marketId: '5',
+        prediction: '39614081257132168796771975168',
+        comment: null,
+        createdAt: Date.parse('2025-01-01T00:00:00.000Z'),
+      });
+    });
+
+    it('should pass filters through to get_recent_attestations', async () => {
+      const { client, callTool } = createClient(attestations);
+
+      await client.getRecentAttestations({ limit: 5, marketId: '6' });
+
+      expect(callTool).toHaveBeenCalledWith(
+        'sapience',
+        'get_recent_attestations',
+        { limit: 5, marketId: '6' }
+      );
+    });
+
+    it('should reject attestations with invalid timestamps', async () => {
+      const { client } = createClient([
+        { ...attestations[0], createdAt: 'yesterday' },
+      ]);
+      await expect(client.getRecentAttestations()).rejects.toThrow(
+        /0.createdAt: invalid timestamp "yesterday"/
+      );
+    });
+  });
+});
+
+describe('SapienceClient settled markets', () => {
+  const base = {
+    id: 1,
+    marketGroupAddress: '0x0000000000000000000000000000000000000001',
+    question: 'Q?',
+  };
+
+  it('should normalize outcomes from booleans, strings and settlement prices', async () => {
+    const { client, callTool } = createClient([
+      { ...base, outcome: true },
+      { ...base, outcome: 'NO' },
+      { ...base, settlementPriceD18: '250000000000000000' },
+    ]);
+
+    const markets = await client.listSettledMarkets();
+
+    expect(callTool).toHaveBeenCalledWith(
+      'sapience',
+      'list_settled_markets',
+      {}
+    );
+    expect(markets.map(m => m.outcome)).toEqual([1, 0, 0.25]);
+    expect(markets[0].settledAt).toBeNull();
+  });
+
+  it('should reject settled markets without an outcome', async () => {
+    const { client } = createClient([base]);
+    await expect(client.listSettledMarkets()).rejects.toThrow(
+      /settled market 1 has no valid outcome/
+    );
+  });
+});
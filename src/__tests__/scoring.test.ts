@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  brierScore,
+  calibrationBuckets,
+  logLoss,
+  scoreForecasts,
+} from '../utils/scoring';
+import { joinResolutions } from '../services/resolutionTracker';
+import type { AttestationRecord } from '../services/attestationLedger';
+import type { SettledMarket } from '../services/sapienceClient';
+
+describe('forecast scoring', () => {
+  it('should compute the Brier score', () => {
+    expect(
+      brierScore([
+        { probability: 1, outcome: 1 },
+        { probability: 0.5, outcome: 0 },
+      ])
+    ).toBeCloseTo(0.125);
+  });
+
+  it('should compute log loss and stay finite for certain misses', () => {
+    expect(logLoss([{ probability: 0.5, outcome: 1 }])).toBeCloseTo(Math.LN2);
+    expect(Number.isFinite(logLoss([{ probability: 0, outcome: 1 }])!)).toBe(
+      true
+    );
+  });
+
+  it('should return null scores when nothing has resolved', () => {
+    const report = scoreForecasts([]);
+    expect(report.resolvedCount).toBe(0);
+    expect(report.brierScore).toBeNull();
+    expect(report.logLoss).toBeNull();
+    expect(report.calibration).toHaveLength(10);
+  });
+
+  it('should bucket forecasts for calibration', () => {
+    const buckets = calibrationBuckets(
+      [
+        { probability: 0.72, outcome: 1 },
+        { probability: 0.78, outcome: 0 },
+        { probability: 1, outcome: 1 },
+      ],
+      5
+    );
+
+    expect(buckets[3]).toEqual({
+      lower: 0.6,
+      upper: 0.8,
+      count: 2,
+      meanForecast: 0.75,
+      observedFrequency: 0.5,
+    });
+    // 100% lands in the top bucket rather than overflowing
+    expect(buckets[4].count).toBe(1);
+    expect(buckets[0].meanForecast).toBeNull();
+  });
+});
+
+describe('joinResolutions', () => {
+  const address = '0xAbC0000000000000000000000000000000000001';
+
+  function record(
+    overrides: Partial<AttestationRecord> = {}
+  ): AttestationRecord {
+    return {
+      marketId: '1',
+      marketAddress: address.toLowerCase(),
+      probability: 60,
+      confidence: 0.7,
+      reasoning: '',
+      calldata: null,
+      txHash: null,
+      txStatus: null,
+      txError: null,
+      attestationUid: null,
+      blockNumber: null,
+      batchIndex: null,
+      gasCost: null,
+      cycleId: null,
+      promptVersion: 'default-v1',
+      sources: [],
+      adjustment: null,
+      timestamp: 1000,
+      ...overrides,
+    };
+  }
+
+  function settled(overrides: Partial<SettledMarket> = {}): SettledMarket {
+    return {
+      id: '1',
+      marketId: '1',
+      marketAddress: address,
+      question: 'Q?',
+      currentPrice: null,
+      volume: null,
+      endTimestamp: null,
+      outcome: 1,
+      settledAt: null,
+      ...overrides,
+    };
+  }
+
+  it('should use the latest attestation made before settlement', () => {
+    const resolved = joinResolutions(
+      [
+        record({ probability: 40, timestamp: 1000 }),
+        record({ probability: 70, timestamp: 2000 }),
+        record({ probability: 90, timestamp: 4000 }),
+      ],
+      [settled({ settledAt: 3000 })]
+    );
+
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0]).toMatchObject({
+      probability: 70,
+      outcome: 1,
+      attestedAt: 2000,
+      promptVersion: 'default-v1',
+    });
+  });
+
+  it('should ignore markets we never attested to', () => {
+    expect(
+      joinResolutions([record()], [settled({ marketId: '2', id: '2' })])
+    ).toEqual([]);
+  });
+
+  it('should ignore attestations made after settlement', () => {
+    expect(
+      joinResolutions(
+        [record({ timestamp: 5000 })],
+        [settled({ settledAt: 3000 })]
+      )
+    ).toEqual([]);
+  });
+
+  it('should ignore attestations whose transaction failed, reverted or was dropped', () => {
+    const resolved = joinResolutions(
+      [
+        record({ probability: 40, timestamp: 1000, txStatus: 'confirmed' }),
+        record({ probability: 90, timestamp: 2000, txStatus: 'reverted' }),
+        record({ probability: 95, timestamp: 2500, txStatus: 'failed' }),
+        record({ probability: 85, timestamp: 2700, txStatus: 'dropped' }),
+      ],
+      [settled({ settledAt: 3000 })]
+    );
+    expect(resolved.map(r => r.probability)).toEqual([40]);
+  });
+
+  it('should score attestations the submit action sent without a hash', () => {
+    const resolved = joinResolutions(
+      [record({ probability: 60, timestamp: 1000, txStatus: 'unconfirmed' })],
+      [settled({ settledAt: 3000 })]
+    );
+    expect(resolved.map(r => r.probability)).toEqual([60]);
+  });
+});
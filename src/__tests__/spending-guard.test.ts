@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'bun:test';
+import { parseEther } from 'viem';
+import { SpendingGuard } from '../services/spendingGuard';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1_750_000_000_000;
+
+describe('SpendingGuard', () => {
+  it('should allow anything without limits', () => {
+    const guard = new SpendingGuard();
+    guard.record('0x1', 1000, parseEther('10'), NOW);
+
+    expect(guard.check(1000, 0n, NOW)).toBeNull();
+    expect(guard.checksBalance).toBe(false);
+  });
+
+  it('should enforce the hourly attestation limit', () => {
+    const guard = new SpendingGuard({ maxAttestationsPerHour: 3 });
+    guard.record('0x1', 2, 0n, NOW - 10 * 60 * 1000);
+
+    expect(guard.check(1, null, NOW)).toBeNull();
+    expect(guard.check(2, null, NOW)).toMatchObject({
+      limit: 'attestationsPerHour',
+      reason: '2 attestations in the last hour; the limit is 3',
+    });
+    // The window moves on
+    expect(guard.check(3, null, NOW + HOUR)).toBeNull();
+  });
+
+  it('should enforce the daily attestation limit over a rolling window', () => {
+    const guard = new SpendingGuard({ maxAttestationsPerDay: 5 });
+    guard.record('0x1', 4, 0n, NOW - 20 * HOUR);
+    guard.record('0x2', 1, 0n, NOW - 2 * HOUR);
+
+    expect(guard.check(1, null, NOW)?.limit).toBe('attestationsPerDay');
+    expect(guard.check(1, null, NOW + 4 * HOUR)).toBeNull();
+  });
+
+  it('should charge worst-case gas until the receipt settles it', () => {
+    const guard = new SpendingGuard({ maxDailyGasEth: 0.01 });
+    guard.record('0x1', 1, parseEther('0.02'), NOW);
+
+    expect(guard.check(1, null, NOW)).toMatchObject({
+      limit: 'dailyGas',
+      reason:
+        '0.02 ETH spent on gas in the last 24 hours; the budget is 0.01 ETH',
+    });
+
+    guard.settle('0x1', parseEther('0.004'));
+    expect(guard.check(1, null, NOW)).toBeNull();
+    expect(guard.usage(NOW).gasSpentLastDayEth).toBe('0.004');
+  });
+
+  it('should count the worst case of the next transaction against the gas budget', () => {
+    const guard = new SpendingGuard({ maxDailyGasEth: 0.01 });
+    guard.record('0x1', 1, parseEther('0.006'), NOW);
+
+    expect(guard.check(1, null, NOW, parseEther('0.004'))).toBeNull();
+    expect(guard.check(1, null, NOW, parseEther('0.005'))).toMatchObject({
+      limit: 'dailyGas',
+      reason:
+        '0.006 ETH spent on gas in the last 24 hours and the next transaction could cost up to 0.005 ETH; the budget is 0.01 ETH',
+    });
+  });
+
+  it('should enforce the wallet balance floor when the balance is known', () => {
+    const guard = new SpendingGuard({ minBalanceEth: 0.01 });
+
+    expect(guard.checksBalance).toBe(true);
+    expect(guard.check(1, parseEther('0.005'), NOW)).toMatchObject({
+      limit: 'minBalance',
+      reason: 'Wallet balance 0.005 ETH is below the 0.01 ETH floor',
+    });
+    expect(guard.check(1, parseEther('0.01'), NOW)).toBeNull();
+    expect(guard.check(1, null, NOW)).toBeNull();
+  });
+
+  it('should report usage for the last hour and day', () => {
+    const guard = new SpendingGuard();
+    guard.record('0x1', 2, parseEther('0.001'), NOW - 30 * 60 * 1000);
+    guard.record('0x2', 3, parseEther('0.002'), NOW - 5 * HOUR);
+    guard.record('0x3', 7, parseEther('1'), NOW - 25 * HOUR);
+
+    expect(guard.usage(NOW)).toEqual({
+      attestationsLastHour: 2,
+      attestationsLastDay: 5,
+      gasSpentLastDayEth: '0.003',
+    });
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new SpendingGuard({ maxAttestationsPerHour: -1 })).toThrow(
+      /guardrails.maxAttestationsPerHour must be a non-negative number/
+    );
+    expect(
+      () => new SpendingGuard({ maxDailyGasEth: 'lots' as unknown as number })
+    ).toThrow(/guardrails.maxDailyGasEth/);
+    expect(() => new SpendingGuard({ minBalanceEth: null })).not.toThrow();
+  });
+});
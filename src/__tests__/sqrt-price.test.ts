@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  isqrt,
+  probabilityToSqrtPriceX96,
+  Q96,
+  sqrtPriceX96ToProbability,
+} from '../utils/sqrtPrice';
+
+// Small deterministic PRNG so property tests are reproducible
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+describe('sqrtPriceX96 encoding', () => {
+  describe('isqrt', () => {
+    it('should compute floor square roots', () => {
+      expect(isqrt(0n)).toBe(0n);
+      expect(isqrt(1n)).toBe(1n);
+      expect(isqrt(15n)).toBe(3n);
+      expect(isqrt(16n)).toBe(4n);
+      expect(isqrt(Q96 * Q96)).toBe(Q96);
+      expect(isqrt(Q96 * Q96 - 1n)).toBe(Q96 - 1n);
+    });
+
+    it('should satisfy r^2 <= n < (r+1)^2 for random inputs', () => {
+      const random = createRandom(7);
+      for (let i = 0; i < 500; i++) {
+        const n =
+          BigInt(Math.floor(random() * 2 ** 52)) *
+          BigInt(Math.floor(random() * 2 ** 52) + 1);
+        const r = isqrt(n);
+        expect(r * r <= n).toBe(true);
+        expect((r + 1n) * (r + 1n) > n).toBe(true);
+      }
+    });
+
+    it('should reject negative values', () => {
+      expect(() => isqrt(-1n)).toThrow();
+    });
+  });
+
+  describe('edges', () => {
+    it('should encode 0% as zero', () => {
+      expect(probabilityToSqrtPriceX96(0)).toBe(0n);
+      expect(sqrtPriceX96ToProbability(0n)).toBe(0);
+    });
+
+    it('should encode 100% as exactly Q96', () => {
+      expect(probabilityToSqrtPriceX96(100)).toBe(Q96);
+      expect(sqrtPriceX96ToProbability(Q96)).toBe(100);
+    });
+
+    it('should encode 25% as half of Q96', () => {
+      expect(probabilityToSqrtPriceX96(25)).toBe(Q96 / 2n);
+    });
+
+    it('should reject probabilities outside 0-100', () => {
+      expect(() => probabilityToSqrtPriceX96(-0.0001)).toThrow();
+      expect(() => probabilityToSqrtPriceX96(100.0001)).toThrow();
+      expect(() => probabilityToSqrtPriceX96(NaN)).toThrow();
+      expect(() => probabilityToSqrtPriceX96(Infinity)).toThrow();
+    });
+
+    it('should reject sqrtPriceX96 values outside the probability range', () => {
+      expect(() => sqrtPriceX96ToProbability(-1n)).toThrow();
+      expect(() => sqrtPriceX96ToProbability(Q96 + 1n)).toThrow();
+    });
+
+    it('should accept string and number inputs when decoding', () => {
+      const encoded = probabilityToSqrtPriceX96(65);
+      expect(sqrtPriceX96ToProbability(encoded.toString())).toBe(65);
+      expect(sqrtPriceX96ToProbability(0)).toBe(0);
+    });
+  });
+
+  describe('round-trip stability', () => {
+    it('should round-trip every integer percentage exactly', () => {
+      for (let probability = 0; probability <= 100; probability++) {
+        expect(
+          sqrtPriceX96ToProbability(probabilityToSqrtPriceX96(probability))
+        ).toBe(probability);
+      }
+    });
+
+    it('should round-trip every 0.1% step exactly', () => {
+      for (let tenths = 0; tenths <= 1000; tenths++) {
+        const probability = tenths / 10;
+        expect(
+          sqrtPriceX96ToProbability(probabilityToSqrtPriceX96(probability))
+        ).toBe(probability);
+      }
+    });
+
+    it('should round-trip random probabilities within float precision', () => {
+      const random = createRandom(42);
+      for (let i = 0; i < 2000; i++) {
+        const probability = random() * 100;
+        const decoded = sqrtPriceX96ToProbability(
+          probabilityToSqrtPriceX96(probability)
+        );
+        expect(Math.abs(decoded - probability)).toBeLessThan(1e-12);
+      }
+    });
+
+    it('should be stable when re-encoding a decoded value', () => {
+      const random = createRandom(1234);
+      for (let i = 0; i < 500; i++) {
+        const encoded = probabilityToSqrtPriceX96(random() * 100);
+        const reencoded = probabilityToSqrtPriceX96(
+          sqrtPriceX96ToProbability(encoded)
+        );
+        expect(reencoded).toBe(encoded);
+      }
+    });
+
+    it('should preserve ordering of probabilities', () => {
+      let previous = -1n;
+      for (let tenths = 0; tenths <= 1000; tenths++) {
+        const encoded = probabilityToSqrtPriceX96(tenths / 10);
+        expect(encoded > previous).toBe(true);
+        previous = encoded;
+      }
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, expect, it, mock } from 'bun:test';
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  Hex,
+  parseAbi,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+} from 'viem';
+import { TransactionTracker } from '../services/transactionTracker';
+import { AttestationChain } from '../utils/eas';
+
+const chain: AttestationChain = {
+  chainId: 42161,
+  name: 'Arbitrum',
+  easAddress: '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458',
+  schemaId: `0x${'11'.repeat(32)}`,
+  rpcUrl: null,
+};
+
+const txHash = `0x${'ab'.repeat(32)}`;
+const uid = `0x${'cd'.repeat(32)}` as Hex;
+
+const easEvents = parseAbi([
+  'event Attested(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+  'event Revoked(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+]);
+
+function easLog(
+  eventName: 'Attested' | 'Revoked',
+  address: string = chain.easAddress,
+  attestationUid: Hex = uid
+) {
+  return {
+    address,
+    topics: encodeEventTopics({
+      abi: easEvents,
+      eventName,
+      args: {
+        recipient: '0x0000000000000000000000000000000000000000',
+        attester: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+        schemaUID: chain.schemaId as Hex,
+      },
+    }),
+    data: encodeAbiParameters([{ type: 'bytes32' }], [attestationUid]),
+  };
+}
+
+function receipt(status: 'success' | 'reverted', logs: unknown[] = []) {
+  return {
+    status,
+    blockNumber: 123n,
+    logs,
+    gasUsed: 50000n,
+    effectiveGasPrice: 2n,
+  };
+}
+
+function createClient(overrides: Record<string, unknown> = {}) {
+  return {
+    waitForTransactionReceipt: mock(async () => receipt('success', [])),
+    getTransactionReceipt: mock(async () => receipt('success', [])),
+    getTransaction: mock(async () => ({ hash: txHash })),
+    ...overrides,
+  } as any;
+}
+
+describe('TransactionTracker', () => {
+  it('should confirm a mined attestation and read its UID', async () => {
+    const client = createClient({
+      waitForTransactionReceipt: mock(async () =>
+        receipt('success', [
+          easLog('Attested', '0x0000000000000000000000000000000000000001'),
+          easLog('Revoked'),
+          easLog('Attested'),
+        ])
+      ),
+    });
+    const tracker = new TransactionTracker(client, chain, {
+      confirmations: 2,
+      timeout: 5000,
+    });
+
+    expect(await tracker.track(txHash)).toEqual({
+      txStatus: 'confirmed',
+      attestationUids: [uid],
+      blockNumber: 123,
+      gasCost: 100000n,
+      txError: null,
+    });
+    expect(client.waitForTransactionReceipt).toHaveBeenCalledWith({
+      hash: txHash,
+      confirmations: 2,
+      timeout: 5000,
+    });
+  });
+
+  it('should confirm without a UID when no Attested event was emitted', async () => {
+    const tracker = new TransactionTracker(createClient(), chain);
+    expect(await tracker.track(txHash)).toMatchObject({
+      txStatus: 'confirmed',
+      attestationUids: [],
+    });
+  });
+
+  it('should read every UID of a multiAttest transaction in order', async () => {
+    const second = `0x${'ef'.repeat(32)}` as Hex;
+    const client = createClient({
+      waitForTransactionReceipt: mock(async () =>
+        receipt('success', [
+          easLog('Attested'),
+          easLog('Attested', chain.easAddress, second),
+        ])
+      ),
+    });
+    expect(
+      (await new TransactionTracker(client, chain).track(txHash))
+        .attestationUids
+    ).toEqual([uid, second]);
+  });
+
+  it('should mark reverted transactions', async () => {
+    const client = createClient({
+      waitForTransactionReceipt: mock(async () => receipt('reverted')),
+    });
+    expect(
+      await new TransactionTracker(client, chain).track(txHash)
+    ).toMatchObject({ txStatus: 'reverted', blockNumber: 123 });
+  });
+
+  it('should leave the transaction pending when no receipt arrives', async () => {
+    const client = createClient({
+      waitForTransactionReceipt: mock(async () => {
+        throw new WaitForTransactionReceiptTimeoutError({
+          hash: txHash as Hex,
+        });
+      }),
+    });
+    const outcome = await new TransactionTracker(client, chain, {
+      timeout: 30000,
+    }).track(txHash);
+    expect(outcome).toEqual({
+      txStatus: 'pending',
+      attestationUids: [],
+      blockNumber: null,
+      gasCost: null,
+      txError: 'No receipt after 30s',
+    });
+  });
+
+  it('should check earlier transactions without waiting', async () => {
+    const mined = new TransactionTracker(
+      createClient({
+        getTransactionReceipt: mock(async () =>
+          receipt('success', [easLog('Attested')])
+        ),
+      }),
+      chain
+    );
+    expect(await mined.check(txHash)).toMatchObject({
+      txStatus: 'confirmed',
+      attestationUids: [uid],
+    });
+
+    const unmined = new TransactionTracker(
+      createClient({
+        getTransactionReceipt: mock(async () => {
+          throw new TransactionReceiptNotFoundError({ hash: txHash as Hex });
+        }),
+      }),
+      chain
+    );
+    expect(await unmined.check(txHash)).toEqual({
+      txStatus: 'pending',
+      attestationUids: [],
+      blockNumber: null,
+      gasCost: null,
+      txError: null,
+    });
+  });
+
+  it('should mark a transaction the node forgot as dropped after the grace period', async () => {
+    const client = createClient({
+      getTransactionReceipt: mock(async () => {
+        throw new TransactionReceiptNotFoundError({ hash: txHash as Hex });
+      }),
+      getTransaction: mock(async () => {
+        throw new TransactionNotFoundError({ hash: txHash as Hex });
+      }),
+    });
+    const tracker = new TransactionTracker(client, chain, {
+      dropAfter: 60000,
+    });
+
+    expect((await tracker.check(txHash, Date.now() - 1000)).txStatus).toBe(
+      'pending'
+    );
+    expect(client.getTransaction).not.toHaveBeenCalled();
+    expect(await tracker.check(txHash, Date.now() - 120000)).toEqual({
+      txStatus: 'dropped',
+      attestationUids: [],
+      blockNumber: null,
+      gasCost: 0n,
+      txError: 'Transaction dropped before it was mined',
+    });
+  });
+
+  it('should keep waiting on an old transaction the node still knows', async () => {
+    const tracker = new TransactionTracker(
+      createClient({
+        getTransactionReceipt: mock(async () => {
+          throw new TransactionReceiptNotFoundError({ hash: txHash as Hex });
+        }),
+      }),
+      chain,
+      { dropAfter: 60000 }
+    );
+
+    expect((await tracker.check(txHash, Date.now() - 120000)).txStatus).toBe(
+      'pending'
+    );
+  });
+});
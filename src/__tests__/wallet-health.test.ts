@@ -0,0 +1,91 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { parseEther } from 'viem';
+import { checkWalletHealth, isUnfunded } from '../services/walletHealth';
+import { AttestationChain } from '../utils/eas';
+
+const chain: AttestationChain = {
+  chainId: 42161,
+  name: 'Arbitrum',
+  easAddress: '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458',
+  schemaId: `0x${'11'.repeat(32)}`,
+  rpcUrl: null,
+};
+
+const address = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+const NOW = 1_750_000_000_000;
+
+function createClient({
+  chainId = 42161,
+  balance = parseEther('0.25'),
+  nonce = 7,
+}: { chainId?: number; balance?: bigint; nonce?: number } = {}) {
+  return {
+    getChainId: mock(async () => chainId),
+    getBalance: mock(async () => balance),
+    getTransactionCount: mock(async () => nonce),
+  };
+}
+
+describe('checkWalletHealth', () => {
+  it('should report balance, nonce and chain of a healthy wallet', async () => {
+    const client = createClient();
+
+    const health = await checkWalletHealth(client as any, address, chain, NOW);
+
+    expect(health).toEqual({
+      address,
+      chainId: 42161,
+      rpcChainId: 42161,
+      balanceEth: '0.25',
+      nonce: 7,
+      problems: [],
+      checkedAt: NOW,
+    });
+    expect(client.getTransactionCount).toHaveBeenCalledWith({
+      address,
+      blockTag: 'pending',
+    });
+    expect(isUnfunded(health)).toBe(false);
+  });
+
+  it('should flag a wallet with no balance', async () => {
+    const health = await checkWalletHealth(
+      createClient({ balance: 0n }) as any,
+      address,
+      chain
+    );
+
+    expect(health.problems).toEqual([
+      'Wallet has no ETH on Arbitrum to pay for gas',
+    ]);
+    expect(isUnfunded(health)).toBe(true);
+  });
+
+  it('should flag an RPC serving a different chain', async () => {
+    const health = await checkWalletHealth(
+      createClient({ chainId: 8453 }) as any,
+      address,
+      chain
+    );
+
+    expect(health.problems).toEqual([
+      'RPC is on chain 8453 but attestations go to Arbitrum (42161)',
+    ]);
+  });
+
+  it('should report an unreachable RPC without failing', async () => {
+    const client = createClient();
+    client.getBalance.mockRejectedValue(new Error('connection refused'));
+
+    const health = await checkWalletHealth(client as any, address, chain);
+
+    expect(health).toMatchObject({
+      balanceEth: null,
+      nonce: null,
+      rpcChainId: null,
+      problems: ['Could not reach the Arbitrum RPC: connection refused'],
+    });
+    // Unknown is not the same as empty
+    expect(isUnfunded(health)).toBe(false);
+  });
+});
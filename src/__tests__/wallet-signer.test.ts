@@ -0,0 +1,231 @@
+import { describe, expect, it, mock } from 'bun:test';
+import {
+  createPublicClient,
+  http,
+  parseGwei,
+  TransactionNotFoundError,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  createWalletSigner,
+  resolvePrivateKey,
+  WalletSigner,
+  WalletSettings,
+} from '../services/walletSigner';
+import { AttestationChain } from '../utils/eas';
+
+// Well-known development key (first Anvil/Hardhat account)
+const TEST_PRIVATE_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const account = privateKeyToAccount(TEST_PRIVATE_KEY);
+
+const chain: AttestationChain = {
+  chainId: 42161,
+  name: 'Arbitrum',
+  easAddress: '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458',
+  schemaId: `0x${'11'.repeat(32)}`,
+  rpcUrl: null,
+};
+
+const tx = {
+  to: chain.easAddress,
+  data: '0xdeadbeef',
+  value: '0',
+  chainId: chain.chainId,
+};
+
+function createSigner(settings: WalletSettings = {}, pendingNonce = 5) {
+  const publicClient = {
+    getTransactionCount: mock(async () => pendingNonce),
+    getTransaction: mock(async ({ hash }: { hash: string }) => ({ hash })),
+    estimateGas: mock(async () => 100000n),
+    estimateFeesPerGas: mock(async () => ({
+      maxFeePerGas: parseGwei('2'),
+      maxPriorityFeePerGas: parseGwei('0.5'),
+    })),
+  };
+  let sent = 0;
+  const walletClient = {
+    sendTransaction: mock(
+      async () => `0x${String(++sent).padStart(64, '0')}` as const
+    ),
+  };
+  const signer = new WalletSigner(
+    account,
+    chain,
+    publicClient as any,
+    walletClient as any,
+    settings
+  );
+  return { signer, publicClient, walletClient };
+}
+
+describe('WalletSigner', () => {
+  it('should send with estimated gas plus headroom and network fees', async () => {
+    const { signer, walletClient } = createSigner();
+
+    const sent = await signer.send(tx);
+
+    expect(sent).toEqual({
+      txHash: `0x${'1'.padStart(64, '0')}`,
+      nonce: 5,
+      gas: 120000n,
+      maxFeePerGas: parseGwei('2'),
+      maxPriorityFeePerGas: parseGwei('0.5'),
+    });
+    expect(walletClient.sendTransaction).toHaveBeenCalledWith({
+      to: tx.to,
+      data: tx.data,
+      value: 0n,
+      nonce: 5,
+      gas: 120000n,
+      maxFeePerGas: parseGwei('2'),
+      maxPriorityFeePerGas: parseGwei('0.5'),
+    });
+  });
+
+  it('should cap fees at the configured maximum', async () => {
+    const { signer } = createSigner({
+      maxFeePerGasGwei: 1,
+      maxPriorityFeePerGasGwei: 0.1,
+      gasMultiplier: 1,
+    });
+
+    expect(await signer.send(tx)).toMatchObject({
+      gas: 100000n,
+      maxFeePerGas: parseGwei('1'),
+      maxPriorityFeePerGas: parseGwei('0.1'),
+    });
+  });
+
+  it('should assign consecutive nonces before the node sees pending ones', async () => {
+    const { signer } = createSigner();
+
+    const nonces = await Promise.all([
+      signer.send(tx),
+      signer.send(tx),
+      signer.send(tx),
+    ]);
+    expect(nonces.map(sent => sent.nonce)).toEqual([5, 6, 7]);
+  });
+
+  it('should re-read the nonce after a failed send', async () => {
+    const { signer, publicClient, walletClient } = createSigner();
+    await signer.send(tx);
+    walletClient.sendTransaction.mockImplementationOnce(async () => {
+      throw new Error('nonce too low');
+    });
+
+    await expect(signer.send(tx)).rejects.toThrow(
+      '[WalletSigner] Failed to send transaction: nonce too low'
+    );
+    publicClient.getTransactionCount.mockImplementation(async () => 9);
+    expect((await signer.send(tx)).nonce).toBe(9);
+  });
+
+  it('should keep the local nonce while sent transactions are still known', async () => {
+    const { signer, publicClient } = createSigner();
+    await signer.send(tx);
+    await signer.send(tx);
+
+    expect((await signer.send(tx)).nonce).toBe(7);
+    expect(publicClient.getTransaction).toHaveBeenCalled();
+  });
+
+  it('should resync to the pending nonce when sent transactions were dropped', async () => {
+    const { signer, publicClient } = createSigner();
+    await signer.send(tx);
+    await signer.send(tx);
+    publicClient.getTransaction.mockImplementation(async ({ hash }) => {
+      throw new TransactionNotFoundError({ hash: hash as `0x${string}` });
+    });
+
+    expect((await signer.send(tx)).nonce).toBe(5);
+    publicClient.getTransaction.mockImplementation(async ({ hash }) => ({
+      hash,
+    }));
+    expect((await signer.send(tx)).nonce).toBe(6);
+  });
+
+  it('should estimate the worst-case cost the same way it sends', async () => {
+    const { signer } = createSigner({ maxFeePerGasGwei: 1 });
+
+    // 100000 gas + 20% headroom at the 1 gwei cap
+    expect(await signer.estimateCost(tx)).toBe(120000n * parseGwei('1'));
+    const sent = await signer.send(tx);
+    expect(sent.gas * sent.maxFeePerGas).toBe(120000n * parseGwei('1'));
+  });
+
+  it('should refuse transactions for another chain', async () => {
+    const { signer, walletClient } = createSigner();
+    await expect(signer.send({ ...tx, chainId: 1 })).rejects.toThrow(
+      /Transaction is for chain 1/
+    );
+    expect(walletClient.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => createSigner({ gasMultiplier: 0.5 })).toThrow(
+      /gasMultiplier must be at least 1/
+    );
+    expect(() => createSigner({ maxFeePerGasGwei: 0 })).toThrow(
+      /maxFeePerGasGwei must be positive/
+    );
+  });
+
+  it('should only create a signer when a private key is set', () => {
+    expect(createWalletSigner(chain, {}, {})).toBeNull();
+    expect(
+      createWalletSigner(chain, {}, { EVM_PRIVATE_KEY: TEST_PRIVATE_KEY })
+        ?.address
+    ).toBe(account.address);
+  });
+
+  it('should fall back to the other private key variables', () => {
+    expect(resolvePrivateKey({ PRIVATE_KEY: TEST_PRIVATE_KEY })).toBe(
+      TEST_PRIVATE_KEY
+    );
+    expect(resolvePrivateKey({ WALLET_PRIVATE_KEY: TEST_PRIVATE_KEY })).toBe(
+      TEST_PRIVATE_KEY
+    );
+    expect(resolvePrivateKey({})).toBeNull();
+    expect(
+      createWalletSigner(chain, {}, { PRIVATE_KEY: TEST_PRIVATE_KEY })?.address
+    ).toBe(account.address);
+  });
+});
+
+// Run with a local node, e.g. `anvil` and ANVIL_RPC_URL=http://127.0.0.1:8545
+describe.skipIf(!process.env.ANVIL_RPC_URL)('WalletSigner on anvil', () => {
+  const anvil: AttestationChain = {
+    ...chain,
+    chainId: 31337,
+    name: 'Anvil',
+    rpcUrl: process.env.ANVIL_RPC_URL ?? null,
+  };
+
+  it('should send consecutive transactions that get mined', async () => {
+    const signer = createWalletSigner(
+      anvil,
+      {},
+      { EVM_PRIVATE_KEY: TEST_PRIVATE_KEY }
+    )!;
+    const client = createPublicClient({ transport: http(anvil.rpcUrl!) });
+    const send = {
+      to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      data: '0x',
+      value: '1',
+      chainId: anvil.chainId,
+    };
+
+    const [first, second] = [await signer.send(send), await signer.send(send)];
+    expect(second.nonce).toBe(first.nonce + 1);
+
+    for (const { txHash } of [first, second]) {
+      const receipt = await client.waitForTransactionReceipt({
+        hash: txHash as `0x${string}`,
+      });
+      expect(receipt.status).toBe('success');
+    }
+  });
+});
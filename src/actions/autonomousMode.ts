@@ -7,15 +7,85 @@ import {
   elizaLogger
 } from "@elizaos/core";
 import { AttestationService } from "../services/attestationService.js";
+import type { AgentAccuracy } from "../services/resolutionTracker.js";
+import type { WalletHealth } from "../services/walletHealth.js";
+
+// Brier score, log loss and the non-empty calibration buckets for the dashboard
+function formatAccuracy(accuracy: AgentAccuracy | null): string {
+  if (!accuracy || accuracy.resolvedCount === 0) {
+    return "• No resolved markets yet";
+  }
+
+  const calibration = accuracy.calibration
+    .filter(bucket => bucket.count > 0)
+    .map(bucket =>
+      `  ${(bucket.lower * 100).toFixed(0)}-${(bucket.upper * 100).toFixed(0)}%: forecast ${((bucket.meanForecast ?? 0) * 100).toFixed(0)}%, observed ${((bucket.observedFrequency ?? 0) * 100).toFixed(0)}% (n=${bucket.count})`
+    )
+    .join("\n");
+
+  const versions = Object.entries(accuracy.byPromptVersion)
+    .map(([version, report]) =>
+      `  ${version}: brier ${report.brierScore?.toFixed(4)} (n=${report.resolvedCount})`
+    )
+    .join("\n");
+
+  return `• Resolved Markets: ${accuracy.resolvedCount}
+• Brier Score: ${accuracy.brierScore?.toFixed(4)}
+• Log Loss: ${accuracy.logLoss?.toFixed(4)}
+• Calibration:
+${calibration}
+• By Prompt Version:
+${versions}`;
+}
+
+// Result of the last wallet check, with anything that stops it from submitting
+function formatWallet(wallet: WalletHealth | null): string {
+  if (!wallet) {
+    return "• No wallet configured (set EVM_PRIVATE_KEY)";
+  }
+
+  const lines = [
+    `• Address: ${wallet.address}`,
+    `• Balance: ${wallet.balanceEth ?? "unknown"} ETH`,
+    `• Nonce: ${wallet.nonce ?? "unknown"}`,
+    `• Chain: ${wallet.rpcChainId ?? "unknown"} (expected ${wallet.chainId})`,
+    `• Checked: ${new Date(wallet.checkedAt).toLocaleString()}`,
+    ...wallet.problems.map(problem => `⚠️ ${problem}`),
+  ];
+  return lines.join("\n");
+}
+
+// Explicit dry run commands: "dry run on|off", "enable|disable paper mode",
+// "start auto mode in dry run". Null when the message isn't one.
+function parseDryRunCommand(text: string): boolean | null {
+  const mode = "(?:dry run|paper mode|paper trading)";
+  const toggle = text.match(new RegExp(`\\b${mode}\\s+(on|off)\\b`));
+  if (toggle) {
+    return toggle[1] === "on";
+  }
+  const verb = text.match(new RegExp(`\\b(enable|disable)\\s+${mode}\\b`));
+  if (verb) {
+    return verb[1] === "enable";
+  }
+  if (new RegExp(`\\bstart\\b.*\\b(?:in|with)\\s+${mode}\\b`).test(text)) {
+    return true;
+  }
+  return null;
+}
 
 export const autonomousModeAction: Action = {
   name: "AUTONOMOUS_MODE",
-  similes: ["start auto mode", "stop auto mode", "auto attest", "autonomous attestation"],
+  similes: ["start auto mode", "stop auto mode", "auto attest", "autonomous attestation", "dry run", "paper mode"],
   description: "Control autonomous attestation mode",
   
   validate: async (_runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
     const text = message.content?.text?.toLowerCase() || "";
-    return text.includes("auto") || text.includes("autonomous");
+    return (
+      text.includes("auto") ||
+      text.includes("autonomous") ||
+      text.includes("dry run") ||
+      text.includes("paper")
+    );
   },
   
   handler: async (
@@ -28,7 +98,7 @@ export const autonomousModeAction: Action = {
     try {
       const text = message.content?.text?.toLowerCase() || "";
       
-      // Get singleton instance
+      // Get this agent's attestation service
       const attestationService = AttestationService.getInstance(runtime);
       if (!attestationService) {
         await callback?.({
@@ -38,16 +108,34 @@ export const autonomousModeAction: Action = {
         return;
       }
       
+      // Toggle dry run (paper trading) before any start command in the same message
+      const dryRun = parseDryRunCommand(text);
+      if (dryRun !== null) {
+        await attestationService.setDryRun(dryRun);
+
+        if (!text.includes("start")) {
+          await callback?.({
+            text: dryRun
+              ? "📝 Dry run enabled: predictions go to the paper ledger and no transactions are submitted"
+              : "⛓️ Dry run disabled: attestations will be submitted on-chain",
+            content: { dryRun }
+          });
+          return;
+        }
+      }
+
       // Handle commands
       if (text.includes("start")) {
         await attestationService.startAutonomous();
+        const status = await attestationService.getStatus();
         await callback?.({
           text: `🤖 Autonomous attestation mode started!
           
 • Monitoring all markets continuously
-• Minimum confidence: ${(attestationService.getStatus().minConfidence * 100).toFixed(0)}%
-• Check interval: ${attestationService.getStatus().interval / 1000} seconds
-• Batch size: ${attestationService.getStatus().batchSize} markets per cycle
+• Minimum confidence: ${(status.minConfidence * 100).toFixed(0)}%
+• Check interval: ${status.interval / 1000} seconds
+• Batch size: ${status.batchSize} markets per cycle
+• Mode: ${status.dryRun ? 'dry run (paper ledger, nothing submitted)' : 'live'}
 
 I'll analyze markets and create attestations automatically.`,
           content: {}
@@ -56,7 +144,7 @@ I'll analyze markets and create attestations automatically.`,
       }
       
       if (text.includes("stop")) {
-        await attestationService.stop();
+        await attestationService.stopAutonomous();
         await callback?.({
           text: "🛑 Autonomous attestation mode stopped",
           content: {}
@@ -65,24 +153,37 @@ I'll analyze markets and create attestations automatically.`,
       }
       
       if (text.includes("status") || text.includes("dashboard")) {
-        const status = attestationService.getStatus();
-        const history = attestationService.getHistory(5);
+        const status = await attestationService.getStatus();
+        const history = await attestationService.getHistory(5, { paper: status.dryRun });
         
         const response = `📊 **Autonomous Mode Dashboard**
 
 **Status:** ${status.isRunning ? '🟢 Running' : '🔴 Stopped'}
 **Enabled:** ${status.enabled ? 'Yes' : 'No'}
+**Mode:** ${status.dryRun ? '📝 Dry run (paper ledger)' : '⛓️ Live'}
 **Configuration:**
 • Interval: ${status.interval / 1000} seconds
 • Min Confidence: ${(status.minConfidence * 100).toFixed(0)}%
-• Batch Size: ${status.batchSize} markets
+• Batch Size: ${status.batchSize} markets (${status.concurrency} at a time)
+• Submission: ${status.multiAttestChunkSize ? `multiAttest, up to ${status.multiAttestChunkSize} per transaction` : 'one transaction per market'}
+• Guardrails: ${status.pausedBy ? `paused since ${new Date(status.pausedBy.since).toLocaleString()}: ${status.pausedBy.reason}` : 'within limits'}
+• Spent (24h): ${status.spending.attestationsLastDay} attestations (${status.spending.attestationsLastHour} in the last hour), ${status.spending.gasSpentLastDayEth} ETH gas
+
+**Wallet:**
+${formatWallet(status.wallet)}
 
 **Statistics:**
 • Total Attestations: ${status.attestationCount}
+• Paper Attestations: ${status.paperAttestationCount}
 • Last Cycle: ${status.lastCycle ? new Date(status.lastCycle).toLocaleString() : 'Never'}
+• Skipped/Overrun Cycles: ${status.skippedCycles}/${status.overrunCycles}${status.cycleInProgress ? ' (cycle in progress)' : ''}
+• Last Cycle Usage: ${status.lastCycleUsage ? `${status.lastCycleUsage.calls} model calls, ~${status.lastCycleUsage.totalTokens} tokens, ${status.lastCycleUsage.predictions} predictions (${status.lastCycleUsage.reusedPredictions} reused)` : 'n/a'}
+
+**Prediction Accuracy:**
+${formatAccuracy(status.dryRun ? status.paperAccuracy : status.accuracy)}
 
-**Recent Attestations:**
-${history.map(h => `• Market #${h.marketId} - ${h.timestamp}`).join('\n') || 'No attestations yet'}`;
+**Recent ${status.dryRun ? 'Paper ' : ''}Attestations:**
+${history.map(h => `• Market #${h.marketId} - ${h.probability}% YES (confidence: ${h.confidence}) - ${h.timestamp}`).join('\n') || 'No attestations yet'}`;
         
         await callback?.({
           text: response,
@@ -96,6 +197,7 @@ ${history.map(h => `• Market #${h.marketId} - ${h.timestamp}`).join('\n') || '
         text: `**Autonomous Mode Commands:**
 • \`start auto mode\` - Begin autonomous attestation
 • \`stop auto mode\` - Stop autonomous attestation  
+• \`dry run on\` / \`dry run off\` - Toggle paper trading (no transactions submitted)
 • \`show dashboard\` - View current status and history`,
         content: {}
       });
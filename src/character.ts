@@ -27,6 +27,85 @@ export const character: Character = {
       interval: 3600000, // 1 hour
       minConfidence: 0.2,
       batchSize: 50,
+      concurrency: 4, // markets processed in parallel; transactions are still sent one at a time
+      // Submit each cycle's attestations together in EAS multiAttest transactions of up to
+      // chunkSize attestations, instead of one transaction per market (live mode only)
+      multiAttest: { enabled: false, chunkSize: 20 },
+      // Caps on live submissions; the loop pauses (see getStatus().pausedBy) while one is hit.
+      // null = no limit
+      guardrails: {
+        maxAttestationsPerHour: null,
+        maxAttestationsPerDay: 500,
+        maxDailyGasEth: 0.05, // gas spent over a rolling 24 hours
+        minBalanceEth: 0.005, // don't submit below this wallet balance
+      },
+      // dryRun: true records predictions to the paper ledger without submitting; when
+      // AUTO_MODE_DRY_RUN is set in the environment it takes precedence over this
+      resolutionCheckInterval: 21600000, // 6 hours between accuracy checks on settled markets
+      confirmations: 1, // blocks before a submitted attestation is marked confirmed
+      receiptTimeout: 120000, // 2 minutes; unconfirmed transactions stay pending and are rechecked next cycle
+      // Post-processing before attesting: blend in the market price (0 = ignore it),
+      // extremize (>1) or shrink toward 50% (<1) in log-odds, then clamp to bounds.
+      // The defaults leave predictions unchanged; to keep attestations off the
+      // extremes, set e.g. minProbability: 1 and maxProbability: 99
+      marketWeight: 0,
+      extremizeFactor: 1,
+      minProbability: 0,
+      maxProbability: 100,
+      // Each cycle's batch is the highest-priority eligible markets: weighted by how soon
+      // they close, volume, time since we last attested and likely disagreement with the
+      // market price. Markets passed over gain agingRate priority per cycle so none starve.
+      scheduler: {
+        weights: { timeToClose: 1, volume: 1, staleness: 1, disagreement: 1 },
+        agingRate: 0.1,
+      },
+      // Price per 1k prompt/completion tokens, used for the per-cycle cost estimate in status
+      tokenPricing: { promptPer1k: 0, completionPer1k: 0 },
+      // Re-attesting markets we already attested to: not before minInterval (shortened by
+      // closingIntervals near the market's end), then only if the prediction moved by
+      // probabilityChangeThreshold points, and always once maxStaleness has passed.
+      // Per-category overrides go under categories, keyed by category slug or name.
+      reattestation: {
+        minInterval: 86400000, // 24 hours
+        maxStaleness: 604800000, // 7 days
+        closingIntervals: [
+          { within: 172800000, minInterval: 21600000 }, // 6 hours in the last 2 days
+          { within: 21600000, minInterval: 3600000 }, // 1 hour in the last 6 hours
+        ],
+        categories: {},
+      },
+    },
+    // Attestation chain - Arbitrum unless chainId (or ATTESTATION_CHAIN_ID) says otherwise.
+    // Any other chain needs its own schema UID in schemaIds (or ATTESTATION_SCHEMA_ID).
+    // Receipts are read from rpcUrls[chainId] (or ATTESTATION_RPC_URL), else the chain's public RPC.
+    attestation: {
+      schemaIds: {},
+    },
+    // Attestations are signed with EVM_PRIVATE_KEY and sent through the chain's RPC; gas
+    // limits get gasMultiplier headroom and EIP-1559 fees are capped at the *Gwei limits
+    // (unset = no cap). Without a key, the SUBMIT_TRANSACTION action is used instead
+    // unless actionFallback is false.
+    wallet: {
+      gasMultiplier: 1.2,
+      actionFallback: true,
+    },
+    // Prediction prompt - built-in template unless `template` (with `version`) or
+    // `templatesDir` (<version>.md files, or PREDICTION_TEMPLATES_DIR) is set.
+    // The version is recorded with every attestation to compare prompt revisions.
+    predictionPrompt: {},
+    // Research fed into {{recentNews}}: set provider to 'feed' (local RSS/JSON files in
+    // feedPaths) or 'http' (search API at searchUrl), or use the RESEARCH_* env vars.
+    research: {
+      maxSnippets: 5,
+    },
+    // Ensemble forecasting: with samples > 1 each market gets several model calls
+    // (round-robin over models: OBJECT_SMALL, TEXT_SMALL, TEXT_LARGE) pooled by
+    // aggregation (mean, median, trimmed-mean, log-odds); confidence then comes
+    // from how much the samples agree.
+    ensemble: {
+      samples: 1,
+      models: ['OBJECT_SMALL'],
+      aggregation: 'median',
     },
     sapience: {
       servers: {
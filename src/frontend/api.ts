@@ -0,0 +1,54 @@
+import type {
+  AttestationHistoryEntry,
+  AttestationStatus,
+  EligibleMarkets,
+} from '../services/attestationService';
+
+export type { AttestationHistoryEntry, AttestationStatus, EligibleMarkets };
+
+// Block explorers for the chains attestations can be submitted to
+const EXPLORER_URLS: Record<number, string> = {
+  1: 'https://etherscan.io',
+  10: 'https://optimistic.etherscan.io',
+  8453: 'https://basescan.org',
+  42161: 'https://arbiscan.io',
+  11155111: 'https://sepolia.etherscan.io',
+};
+
+export function txUrl(chainId: number | null, txHash: string): string | null {
+  const explorer = chainId === null ? undefined : EXPLORER_URLS[chainId];
+  return explorer ? `${explorer}/tx/${txHash}` : null;
+}
+
+/**
+ * Thin fetch wrapper around the plugin's `/sage` routes for one agent.
+ */
+export function createSageApi(agentId: string, apiBase: string = '') {
+  async function request<T>(
+    path: string,
+    init?: RequestInit,
+    params: Record<string, string> = {},
+  ): Promise<T> {
+    const query = new URLSearchParams({ ...params, agentId });
+    const response = await fetch(`${apiBase}/api/sage${path}?${query}`, init);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error ?? `Request failed: ${response.status} ${response.statusText}`);
+    }
+    return body as T;
+  }
+
+  return {
+    getStatus: () => request<AttestationStatus>('/status'),
+    getHistory: (limit: number = 10, paper: boolean = false) =>
+      request<AttestationHistoryEntry[]>('/history', undefined, {
+        limit: String(limit),
+        paper: String(paper),
+      }),
+    getEligibleMarkets: () => request<EligibleMarkets>('/markets/eligible'),
+    startAutonomous: () => request<AttestationStatus>('/autonomous/start', { method: 'POST' }),
+    stopAutonomous: () => request<AttestationStatus>('/autonomous/stop', { method: 'POST' }),
+  };
+}
+
+export type SageApi = ReturnType<typeof createSageApi>;
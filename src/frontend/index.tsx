@@ -1,11 +1,21 @@
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import {
+  QueryClient,
+  QueryClientProvider,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import React from 'react';
 import type { UUID } from '@elizaos/core';
+import { createSageApi, txUrl } from './api';
 
 const queryClient = new QueryClient();
 
+const REFRESH_INTERVAL = 15000;
+const HISTORY_LIMIT = 10;
+
 // Define the interface for the ELIZA_CONFIG
 interface ElizaConfig {
   agentId: string;
@@ -20,9 +30,9 @@ declare global {
 }
 
 /**
- * Main Example route component
+ * Main Sage route component
  */
-function ExampleRoute() {
+function SageRoute() {
   const config = window.ELIZA_CONFIG;
   const agentId = config?.agentId;
 
@@ -42,24 +52,256 @@ function ExampleRoute() {
     );
   }
 
-  return <ExampleProvider agentId={agentId as UUID} />;
+  return <SageProvider agentId={agentId as UUID} apiBase={config?.apiBase} />;
 }
 
 /**
- * Example provider component
+ * Sage provider component
  */
-function ExampleProvider({ agentId }: { agentId: UUID }) {
+function SageProvider({ agentId, apiBase }: { agentId: UUID; apiBase?: string }) {
   return (
     <QueryClientProvider client={queryClient}>
-      <div>Hello {agentId}</div>
+      <SageDashboard agentId={agentId} apiBase={apiBase} />
     </QueryClientProvider>
   );
 }
 
+function formatPercent(value: number | null | undefined): string {
+  return value === null || value === undefined ? 'n/a' : `${value.toFixed(1)}%`;
+}
+
+function formatTime(timestamp: number | string | null): string {
+  return timestamp === null ? 'never' : new Date(timestamp).toLocaleString();
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-lg border border-border bg-card p-4">
+      <h2 className="mb-3 text-sm font-semibold text-card-foreground">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="font-medium">{value}</div>
+    </div>
+  );
+}
+
+/**
+ * Autonomous mode status, controls, recent attestations and the markets the
+ * current cycle considered eligible
+ */
+function SageDashboard({ agentId, apiBase }: { agentId: string; apiBase?: string }) {
+  const api = React.useMemo(() => createSageApi(agentId, apiBase), [agentId, apiBase]);
+  const client = useQueryClient();
+
+  const status = useQuery({
+    queryKey: ['sage', agentId, 'status'],
+    queryFn: api.getStatus,
+    refetchInterval: REFRESH_INTERVAL,
+  });
+  const history = useQuery({
+    queryKey: ['sage', agentId, 'history', status.data?.dryRun ?? false],
+    queryFn: () => api.getHistory(HISTORY_LIMIT, status.data?.dryRun ?? false),
+    enabled: status.isSuccess,
+    refetchInterval: REFRESH_INTERVAL,
+  });
+  const eligible = useQuery({
+    queryKey: ['sage', agentId, 'eligible'],
+    queryFn: api.getEligibleMarkets,
+    refetchInterval: REFRESH_INTERVAL,
+  });
+
+  const toggle = useMutation({
+    mutationFn: (start: boolean) => (start ? api.startAutonomous() : api.stopAutonomous()),
+    onSuccess: (data) => {
+      // The route answers with the new status, so only the lists need refetching
+      client.setQueryData(['sage', agentId, 'status'], data);
+      client.invalidateQueries({ queryKey: ['sage', agentId, 'history'] });
+      client.invalidateQueries({ queryKey: ['sage', agentId, 'eligible'] });
+    },
+  });
+
+  if (status.isPending) {
+    return <div className="p-4 text-sm text-muted-foreground">Loading Sage status...</div>;
+  }
+
+  if (status.isError) {
+    return (
+      <div className="p-4">
+        <div className="text-red-600 font-medium">Could not load Sage status</div>
+        <div className="text-sm text-muted-foreground mt-2">{status.error.message}</div>
+      </div>
+    );
+  }
+
+  const current = status.data;
+  const accuracy = current.dryRun ? current.paperAccuracy : current.accuracy;
+
+  return (
+    <div className="flex flex-col gap-4 p-4 text-foreground">
+      <Section title="Autonomous Mode">
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          <Stat label="Status" value={current.isRunning ? 'Running' : 'Stopped'} />
+          <Stat label="Mode" value={current.dryRun ? 'Dry run (paper)' : 'Live'} />
+          <Stat label="Interval" value={`${Math.round(current.interval / 60000)} min`} />
+          <Stat label="Min confidence" value={`${Math.round(current.minConfidence * 100)}%`} />
+          <Stat label="Attestations" value={current.attestationCount} />
+          <Stat label="Paper attestations" value={current.paperAttestationCount} />
+          <Stat label="Last attestation" value={formatTime(current.lastCycle)} />
+          <Stat
+            label="Skipped / overrun cycles"
+            value={`${current.skippedCycles} / ${current.overrunCycles}`}
+          />
+          <Stat
+            label="Last cycle usage"
+            value={
+              current.lastCycleUsage
+                ? `${current.lastCycleUsage.calls} calls · ~${current.lastCycleUsage.totalTokens} tokens`
+                : 'n/a'
+            }
+          />
+          <Stat
+            label="Wallet balance"
+            value={
+              current.wallet
+                ? `${current.wallet.balanceEth ?? 'unknown'} ETH`
+                : 'No wallet configured'
+            }
+          />
+          <Stat
+            label="Spent (24h)"
+            value={`${current.spending.attestationsLastDay} attestations · ${current.spending.gasSpentLastDayEth} ETH gas`}
+          />
+          <Stat
+            label="Brier score"
+            value={
+              accuracy?.brierScore != null
+                ? `${accuracy.brierScore.toFixed(4)} (${accuracy.resolvedCount} resolved)`
+                : 'n/a'
+            }
+          />
+        </div>
+        {current.wallet?.problems.map((problem) => (
+          <div key={problem} className="mt-3 text-sm text-red-600">
+            Wallet: {problem}
+          </div>
+        ))}
+        {current.pausedBy && (
+          <div className="mt-3 text-sm text-red-600">
+            Paused by guardrail since {formatTime(current.pausedBy.since)}:{' '}
+            {current.pausedBy.reason}
+          </div>
+        )}
+        <div className="mt-4 flex items-center gap-3">
+          <button
+            type="button"
+            className="rounded-md bg-primary px-3 py-1.5 text-sm text-primary-foreground disabled:opacity-50"
+            disabled={toggle.isPending}
+            onClick={() => toggle.mutate(!current.isRunning)}
+          >
+            {current.isRunning ? 'Stop' : 'Start'}
+          </button>
+          {toggle.isError && <span className="text-sm text-red-600">{toggle.error.message}</span>}
+        </div>
+      </Section>
+
+      <Section title="Recent Attestations">
+        {history.isError ? (
+          <div className="text-sm text-red-600">{history.error.message}</div>
+        ) : !history.data?.length ? (
+          <div className="text-sm text-muted-foreground">No attestations yet.</div>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs text-muted-foreground">
+              <tr>
+                <th className="py-1">Market</th>
+                <th className="py-1">Probability</th>
+                <th className="py-1">Confidence</th>
+                <th className="py-1">Reasoning</th>
+                <th className="py-1">Transaction</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.data.map((entry) => {
+                const link = entry.txHash ? txUrl(current.chainId, entry.txHash) : null;
+                return (
+                  <tr
+                    key={`${entry.marketAddress}:${entry.marketId}:${entry.timestamp}`}
+                    className="border-t border-border align-top"
+                  >
+                    <td className="py-1 pr-2">
+                      #{entry.marketId}
+                      <div className="text-xs text-muted-foreground">
+                        {formatTime(entry.timestamp)}
+                      </div>
+                    </td>
+                    <td className="py-1 pr-2">{formatPercent(entry.probability)}</td>
+                    <td className="py-1 pr-2">{formatPercent(entry.confidence * 100)}</td>
+                    <td className="py-1 pr-2 text-muted-foreground">{entry.reasoning}</td>
+                    <td className="py-1">
+                      {link ? (
+                        <a
+                          className="text-primary underline"
+                          href={link}
+                          target="_blank"
+                          rel="noreferrer"
+                        >
+                          {entry.txHash!.slice(0, 10)}...
+                        </a>
+                      ) : (
+                        (entry.txHash ?? (current.dryRun ? 'paper' : 'not submitted'))
+                      )}
+                      {entry.txStatus && (
+                        <div className="text-xs text-muted-foreground" title={entry.txError ?? ''}>
+                          {entry.txStatus}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </Section>
+
+      <Section title="Eligible Markets (current cycle, by priority)">
+        {eligible.isError ? (
+          <div className="text-sm text-red-600">{eligible.error.message}</div>
+        ) : !eligible.data?.markets.length ? (
+          <div className="text-sm text-muted-foreground">
+            {eligible.data?.cycleId
+              ? 'No markets were eligible this cycle.'
+              : 'No cycle has run yet.'}
+          </div>
+        ) : (
+          <ul className="flex flex-col gap-2 text-sm">
+            {eligible.data.markets.map((market) => (
+              <li key={`${market.marketAddress}:${market.marketId}`}>
+                <div>{market.question}</div>
+                <div className="text-xs text-muted-foreground">
+                  #{market.marketId} · {market._attestationReason}
+                  {market._priority && ` · priority ${market._priority.priority.toFixed(2)}`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+    </div>
+  );
+}
+
 // Initialize the application - no router needed for iframe
 const rootElement = document.getElementById('root');
 if (rootElement) {
-  createRoot(rootElement).render(<ExampleRoute />);
+  createRoot(rootElement).render(<SageRoute />);
 }
 
 // Define types for integration with agent UI system
@@ -77,21 +319,21 @@ interface PanelProps {
 }
 
 /**
- * Example panel component for the plugin system
+ * Sage dashboard panel for the plugin system
  */
 const PanelComponent: React.FC<PanelProps> = ({ agentId }) => {
-  return <div>Helllo {agentId}!</div>;
+  return <SageProvider agentId={agentId as UUID} apiBase={window.ELIZA_CONFIG?.apiBase} />;
 };
 
 // Export the panel configuration for integration with the agent UI
 export const panels: AgentPanel[] = [
   {
-    name: 'Example',
-    path: 'example',
+    name: 'Sage',
+    path: 'sage',
     component: PanelComponent,
-    icon: 'Book',
+    icon: 'Activity',
     public: false,
-    shortLabel: 'Example',
+    shortLabel: 'Sage',
   },
 ];
 
@@ -2,7 +2,6 @@ import { logger, type IAgentRuntime, type Project, type ProjectAgent } from '@el
 import customActionsPlugin from './plugin.ts';
 import { character } from './character.ts';
 import { ProjectStarterTestSuite } from './__tests__/e2e/project-starter.e2e';
-import { AttestationService } from './services/attestationService.js';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -20,13 +19,10 @@ const initCharacter = async ({ runtime }: { runtime: IAgentRuntime }) => {
       enabled: settings.autonomousMode.enabled,
       interval: settings.autonomousMode.interval,
       minConfidence: settings.autonomousMode.minConfidence,
-      batchSize: settings.autonomousMode.batchSize
+      batchSize: settings.autonomousMode.batchSize,
+      dryRun: settings.autonomousMode.dryRun
     } as any);
   }
-  
-  // Initialize AttestationService - it will wait for Sapience plugin and auto-start if enabled
-  new AttestationService(runtime);
-  logger.info('🤖 AttestationService initialization started');
 };
 
 export const projectAgent: ProjectAgent = {
@@ -1,6 +1,8 @@
 import { Plugin } from "@elizaos/core";
 import { attestMarketAction } from "./actions/attestMarket.js";
 import { autonomousModeAction } from "./actions/autonomousMode.js";
+import { attestationRoutes } from "./routes/attestationRoutes.js";
+import { AttestationService } from "./services/attestationService.js";
 
 // Custom plugin for agent-specific attestation logic
 // Works alongside @elizaos/plugin-sapience for data access and transaction submission
@@ -17,11 +19,13 @@ export const customActionsPlugin: Plugin = {
   // No providers - we use sapience plugin for data
   providers: [],
   
-  // Temporarily disable service to avoid initialization error
-  // AttestationService will be started manually by autonomousModeAction
-  services: [],
+  // One AttestationService per agent; auto-starts when autonomousMode.enabled is set
+  services: [AttestationService],
   
   evaluators: [],
+
+  // HTTP API for the frontend panel and external monitoring
+  routes: attestationRoutes,
 };
 
 export default customActionsPlugin;
\ No newline at end of file
@@ -0,0 +1,141 @@
+import {
+  elizaLogger,
+  IAgentRuntime,
+  Route,
+  RouteRequest,
+  RouteResponse,
+} from '@elizaos/core';
+import {
+  AttestationService,
+  MarketNotFoundError,
+  UnfundedWalletError,
+} from '../services/attestationService.js';
+
+const DEFAULT_HISTORY_LIMIT = 10;
+const MAX_HISTORY_LIMIT = 100;
+
+type ServiceHandler = (
+  service: AttestationService,
+  req: RouteRequest,
+  res: RouteResponse
+) => Promise<void>;
+
+/**
+ * Resolve the agent's AttestationService for a route, answering 503 when it
+ * is not available and 500 with the error message when the handler throws.
+ */
+function withService(handler: ServiceHandler): Route['handler'] {
+  return async (
+    req: RouteRequest,
+    res: RouteResponse,
+    runtime: IAgentRuntime
+  ) => {
+    const service = AttestationService.getInstance(runtime);
+    if (!service) {
+      res.status(503).json({ error: 'Attestation service not available' });
+      return;
+    }
+
+    try {
+      await handler(service, req, res);
+    } catch (error) {
+      elizaLogger.error(
+        `[AttestationRoutes] ${req.method} ${req.path} failed:`,
+        error
+      );
+      res.status(500).json({
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+function parseLimit(value: unknown): number {
+  const limit = parseInt(String(value ?? ''), 10);
+  if (Number.isNaN(limit) || limit < 1) {
+    return DEFAULT_HISTORY_LIMIT;
+  }
+  return Math.min(limit, MAX_HISTORY_LIMIT);
+}
+
+export const attestationRoutes: Route[] = [
+  {
+    type: 'GET',
+    path: '/sage/status',
+    handler: withService(async (service, _req, res) => {
+      res.json(await service.getStatus());
+    }),
+  },
+  {
+    type: 'GET',
+    path: '/sage/history',
+    handler: withService(async (service, req, res) => {
+      res.json(
+        await service.getHistory(parseLimit(req.query?.limit), {
+          paper: req.query?.paper === 'true',
+        })
+      );
+    }),
+  },
+  {
+    type: 'GET',
+    path: '/sage/markets/eligible',
+    handler: withService(async (service, _req, res) => {
+      res.json(service.getEligibleMarkets());
+    }),
+  },
+  {
+    type: 'POST',
+    path: '/sage/autonomous/start',
+    handler: withService(async (service, _req, res) => {
+      // Resolves once the loop is running; the first cycle goes on in the background
+      try {
+        await service.startAutonomous();
+      } catch (error) {
+        if (error instanceof UnfundedWalletError) {
+          res.status(409).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+      res.json(await service.getStatus());
+    }),
+  },
+  {
+    type: 'POST',
+    path: '/sage/autonomous/stop',
+    handler: withService(async (service, _req, res) => {
+      await service.stopAutonomous();
+      res.json(await service.getStatus());
+    }),
+  },
+  {
+    type: 'POST',
+    path: '/sage/attest/:marketId',
+    handler: withService(async (service, req, res) => {
+      const marketId = req.params?.marketId;
+      if (!marketId) {
+        res.status(400).json({ error: 'marketId is required' });
+        return;
+      }
+
+      let attestation;
+      try {
+        attestation = await service.attestMarketById(marketId);
+      } catch (error) {
+        if (error instanceof MarketNotFoundError) {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+      if (!attestation) {
+        res.status(422).json({
+          error: `No attestation made for market ${marketId} (prediction failed, confidence below threshold, or the built attestation did not decode back to the market)`,
+        });
+        return;
+      }
+      res.json(attestation);
+    }),
+  },
+];
@@ -0,0 +1,185 @@
+import {
+  ChannelType,
+  createUniqueUuid,
+  elizaLogger,
+  IAgentRuntime,
+  Memory,
+  UUID,
+} from '@elizaos/core';
+import type { ResearchSource } from './researchProvider.js';
+import type { TransactionStatus } from './transactionTracker.js';
+import type { ProbabilityAdjustment } from '../utils/probabilityAdjustment.js';
+
+// Memory table used for the attestation ledger (stored by @elizaos/plugin-sql)
+export const ATTESTATION_LEDGER_TABLE = 'sage_attestations';
+// Separate table for dry-run predictions that were never submitted
+export const PAPER_LEDGER_TABLE = 'sage_paper_attestations';
+
+export interface AttestationRecord {
+  id?: UUID;
+  marketId: string;
+  marketAddress: string;
+  probability: number;
+  confidence: number;
+  reasoning: string;
+  calldata: string | null;
+  txHash: string | null;
+  txStatus: TransactionStatus | null; // null for dry-run predictions
+  txError: string | null;
+  attestationUid: string | null; // from the EAS Attested event once confirmed
+  blockNumber: number | null;
+  batchIndex: number | null; // position within a multiAttest transaction
+  gasCost: string | null; // wei for the whole transaction: worst case when sent, actual once mined
+  cycleId: string | null;
+  promptVersion: string | null; // prediction prompt template version
+  sources: ResearchSource[]; // research cited in the prediction prompt
+  adjustment: ProbabilityAdjustment | null; // raw model probability and post-processing applied
+  timestamp: number;
+}
+
+export type NewAttestationRecord = Omit<
+  AttestationRecord,
+  'id' | 'timestamp'
+> & {
+  timestamp?: number;
+};
+
+/**
+ * Persistent attestation ledger backed by the agent's SQL database.
+ * Each attestation is stored as a memory in a dedicated ledger room so it
+ * survives restarts and can be queried by the service and the dashboard.
+ */
+export class AttestationLedger {
+  private readonly roomId: UUID;
+  private roomReady?: Promise<void>;
+
+  constructor(
+    private readonly runtime: IAgentRuntime,
+    private readonly tableName: string = ATTESTATION_LEDGER_TABLE
+  ) {
+    this.roomId = createUniqueUuid(runtime, `sage-ledger:${tableName}`);
+  }
+
+  private ensureRoom(): Promise<void> {
+    if (!this.roomReady) {
+      this.roomReady = this.runtime
+        .ensureRoomExists({
+          id: this.roomId,
+          name: `Sage ledger (${this.tableName})`,
+          agentId: this.runtime.agentId,
+          source: 'sage',
+          type: ChannelType.SELF,
+        })
+        .catch(error => {
+          // Allow the next call to retry room creation
+          this.roomReady = undefined;
+          throw error;
+        });
+    }
+    return this.roomReady;
+  }
+
+  async record(entry: NewAttestationRecord): Promise<AttestationRecord> {
+    await this.ensureRoom();
+
+    const record: AttestationRecord = {
+      ...entry,
+      timestamp: entry.timestamp ?? Date.now(),
+    };
+
+    const memory: Memory = {
+      entityId: this.runtime.agentId,
+      agentId: this.runtime.agentId,
+      roomId: this.roomId,
+      createdAt: record.timestamp,
+      content: {
+        text: `market #${record.marketId}: ${record.probability}% yes (confidence: ${record.confidence})`,
+        source: 'sage',
+        attestation: record,
+      },
+    };
+
+    record.id = await this.runtime.createMemory(memory, this.tableName);
+    return record;
+  }
+
+  /**
+   * Merge `changes` into an existing record, e.g. once its transaction is
+   * mined. Returns the updated record, or null if it no longer exists.
+   */
+  async update(
+    id: UUID,
+    changes: Partial<Omit<AttestationRecord, 'id'>>
+  ): Promise<AttestationRecord | null> {
+    const memory = await this.runtime.getMemoryById(id);
+    const current = memory && this.fromMemory(memory);
+    if (!memory || !current) {
+      return null;
+    }
+
+    const { id: _id, ...stored } = current;
+    const attestation = { ...stored, ...changes };
+    await this.runtime.updateMemory({
+      id,
+      content: { ...memory.content, attestation },
+    });
+    return { ...attestation, id };
+  }
+
+  // Records whose transaction was submitted but not yet confirmed or reverted
+  async pending(): Promise<AttestationRecord[]> {
+    const records = await this.list();
+    return records.filter(record => record.txStatus === 'pending');
+  }
+
+  async list(limit?: number): Promise<AttestationRecord[]> {
+    await this.ensureRoom();
+
+    const memories = await this.runtime.getMemories({
+      tableName: this.tableName,
+      roomId: this.roomId,
+      count: limit,
+    });
+
+    return memories
+      .map(memory => this.fromMemory(memory))
+      .filter((record): record is AttestationRecord => record !== null)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async count(): Promise<number> {
+    await this.ensureRoom();
+    return this.runtime.countMemories(this.roomId, false, this.tableName);
+  }
+
+  async latest(): Promise<AttestationRecord | null> {
+    const [record] = await this.list(1);
+    return record ?? null;
+  }
+
+  private fromMemory(memory: Memory): AttestationRecord | null {
+    const attestation = memory.content?.attestation as
+      | AttestationRecord
+      | undefined;
+    if (!attestation) {
+      elizaLogger.warn(
+        `[AttestationLedger] Ignoring malformed ledger entry ${memory.id}`
+      );
+      return null;
+    }
+    return {
+      ...attestation,
+      // Entries written before these fields existed don't have them
+      promptVersion: attestation.promptVersion ?? null,
+      sources: attestation.sources ?? [],
+      adjustment: attestation.adjustment ?? null,
+      txStatus: attestation.txStatus ?? null,
+      txError: attestation.txError ?? null,
+      attestationUid: attestation.attestationUid ?? null,
+      blockNumber: attestation.blockNumber ?? null,
+      batchIndex: attestation.batchIndex ?? null,
+      gasCost: attestation.gasCost ?? null,
+      id: memory.id,
+    };
+  }
+}
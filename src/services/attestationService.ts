@@ -1,81 +1,319 @@
-import { elizaLogger, IAgentRuntime, ModelType, Memory } from '@elizaos/core';
+import { elizaLogger, IAgentRuntime, Memory, Service } from '@elizaos/core';
 // @ts-ignore - Sapience plugin types not available at build time
 import type { SapienceService } from '@elizaos/plugin-sapience';
-import { buildAttestationCalldata } from 'src/utils/eas';
+import {
+  AttestationCalldata,
+  buildAttestationCalldata,
+  buildMultiAttestationCalldata,
+  decodeAttestationCalldata,
+  decodeMultiAttestationCalldata,
+  getAttestationChain,
+} from 'src/utils/eas';
+import {
+  probabilityToSqrtPriceX96,
+  sqrtPriceX96ToProbability,
+} from '../utils/sqrtPrice.js';
+import { Hex } from 'viem';
 import { privateKeyToAddress } from 'viem/accounts';
+import { randomUUID } from 'node:crypto';
+import {
+  AttestationLedger,
+  AttestationRecord,
+  NewAttestationRecord,
+  PAPER_LEDGER_TABLE,
+} from './attestationLedger.js';
+import { Market, MarketAttestation, SapienceClient } from './sapienceClient.js';
+import { AgentAccuracy, ResolutionTracker } from './resolutionTracker.js';
+import {
+  GuardrailSettings,
+  GuardrailUsage,
+  GuardrailViolation,
+  SpendingGuard,
+} from './spendingGuard.js';
+import {
+  createWalletSigner,
+  getWalletSettings,
+  resolvePrivateKey,
+  TransactionRequest,
+  validateWalletSettings,
+  WalletSigner,
+} from './walletSigner.js';
+import {
+  createChainPublicClient,
+  TransactionOutcome,
+  TransactionStatus,
+  TransactionTracker,
+} from './transactionTracker.js';
+import {
+  checkWalletHealth,
+  isUnfunded,
+  WalletHealth,
+  WalletHealthClient,
+} from './walletHealth.js';
+import {
+  PredictionEngine,
+  PredictionInput,
+  PredictionResult,
+} from './predictionEngine.js';
+import {
+  MarketPriority,
+  MarketScheduler,
+  SchedulerOptions,
+  SchedulingHints,
+} from './marketScheduler.js';
+import { mapWithConcurrency, Mutex } from '../utils/concurrency.js';
+import {
+  ReattestationPolicy,
+  ReattestationPolicySettings,
+} from './reattestationPolicy.js';
+import {
+  DEFAULT_TOKEN_PRICING,
+  ModelUsage,
+  ModelUsageTracker,
+  TokenPricing,
+} from './modelUsage.js';
+import {
+  adjustProbability,
+  AdjustmentSettings,
+  DEFAULT_ADJUSTMENT_SETTINGS,
+  ProbabilityAdjustment,
+  validateAdjustmentSettings,
+} from '../utils/probabilityAdjustment.js';
+
+export type CandidateMarket = Market & {
+  _attestationReason: string;
+  _scheduling?: SchedulingHints;
+  _priority?: MarketPriority; // set once the scheduler has ranked the market
+  _prediction?: AdjustedPrediction; // made while filtering, reused when attesting
+};
+
+// A prediction after market anchoring, extremization and clamping
+export type AdjustedPrediction = PredictionResult & {
+  adjustment: ProbabilityAdjustment;
+};
+
+// An attestation built and verified for one market, ready to submit
+interface PreparedAttestation {
+  market: CandidateMarket;
+  prediction: AdjustedPrediction;
+  calldata: AttestationCalldata;
+}
 
-interface AttestationConfig {
+export interface AttestationStatus {
+  isRunning: boolean;
   enabled: boolean;
   interval: number;
   minConfidence: number;
   batchSize: number;
-  probabilityChangeThreshold: number; // Minimum % change to re-attest
+  concurrency: number;
+  multiAttestChunkSize: number | null; // attestations per multiAttest transaction, null when off
+  dryRun: boolean;
+  chainId: number | null;
+  attestationCount: number;
+  paperAttestationCount: number;
+  lastCycle: number | null;
+  lastCycleUsage: CycleUsage | null;
+  cycleInProgress: boolean;
+  skippedCycles: number; // ticks dropped because the previous cycle was still running
+  pausedBy: GuardrailPause | null; // guardrail holding back submissions, if any
+  spending: GuardrailUsage;
+  wallet: WalletHealth | null; // last wallet check; null without a private key or before the first
+  overrunCycles: number; // cycles that took longer than the interval
+  accuracy: AgentAccuracy | null;
+  paperAccuracy: AgentAccuracy | null;
+}
+
+// Model usage of one attestation cycle; each market should cost one prediction
+export interface CycleUsage extends ModelUsage {
+  cycleId: string;
+  predictions: number; // predictions generated
+  reusedPredictions: number; // predictions made by the filter and reused to attest
+}
+
+// A guardrail limit that was hit, and since when cycles have been skipped for it
+export interface GuardrailPause extends GuardrailViolation {
+  since: number;
+}
+
+export interface SubmittedTransaction {
+  txHash: string | null;
+  submitter: 'signer' | 'action';
+  gasCost: bigint | null; // worst case in wei; null when the action sent it
+}
+
+export interface EligibleMarkets {
+  cycleId: string | null;
+  markets: CandidateMarket[];
+}
+
+export type AttestationHistoryEntry = Omit<
+  AttestationRecord,
+  'id' | 'timestamp'
+> & {
+  timestamp: string;
+};
+
+// A live loop was asked to run from a wallet with no ETH for gas
+export class UnfundedWalletError extends Error {
+  constructor(
+    readonly address: string,
+    readonly chainId: number
+  ) {
+    super(
+      `[AttestationService] Wallet ${address} has no ETH on chain ${chainId} - fund it before running autonomous mode live`
+    );
+    this.name = 'UnfundedWalletError';
+  }
+}
+
+// attestMarketById was asked for a market that isn't active
+export class MarketNotFoundError extends Error {
+  constructor(readonly marketId: string) {
+    super(
+      `[AttestationService] Market ${marketId} not found among active markets`
+    );
+    this.name = 'MarketNotFoundError';
+  }
 }
 
-interface AttestationHistory {
-  timestamp: Date;
-  probability: number;
-  confidence: number;
+interface MultiAttestSettings {
+  enabled: boolean;
+  chunkSize: number; // most attestations per multiAttest transaction
 }
 
-// Global singleton instance
-let globalInstance: AttestationService | null = null;
+interface AttestationConfig extends AdjustmentSettings {
+  enabled: boolean;
+  interval: number;
+  minConfidence: number;
+  batchSize: number;
+  concurrency: number; // Markets processed in parallel within a batch
+  probabilityChangeThreshold: number; // Minimum % change to re-attest (default for reattestation rules)
+  dryRun: boolean; // Build attestations and record them to the paper ledger without submitting
+  resolutionCheckInterval: number; // How often to score attestations against settled markets
+  scheduler?: SchedulerOptions; // Priority weights and aging for picking each cycle's batch
+  tokenPricing?: TokenPricing; // Price per 1k prompt/completion tokens for cost estimates
+  reattestation?: ReattestationPolicySettings; // When already-attested markets are due again
+  guardrails?: GuardrailSettings; // Caps on attestations, gas spend and wallet balance
+  multiAttest: MultiAttestSettings; // Submit each cycle's attestations together
+  confirmations: number; // Blocks to wait for before an attestation counts as confirmed
+  receiptTimeout: number; // How long to wait for a receipt before leaving the tx pending
+}
 
-// Standalone service class that doesn't extend Service to avoid initialization issues
-export class AttestationService {
-  private runtime!: IAgentRuntime;
-  private config!: AttestationConfig;
+/**
+ * Per-agent service that runs the autonomous attestation loop. Registered on
+ * the plugin, so each agent runtime gets its own instance via
+ * `runtime.getService('attestation')`.
+ */
+export class AttestationService extends Service {
+  static serviceType = 'attestation';
+  capabilityDescription =
+    'Generates market predictions and submits them as EAS attestations';
+
+  private attestationConfig: AttestationConfig;
   private intervalId?: NodeJS.Timeout;
-  private attestationHistory: Map<string, AttestationHistory> = new Map(); // marketId -> attestation details
+  private ledger: AttestationLedger;
+  private paperLedger: AttestationLedger;
+  private resolutionTracker: ResolutionTracker;
+  private predictionEngine: PredictionEngine;
+  private scheduler: MarketScheduler;
+  private reattestationPolicy: ReattestationPolicy;
+  private spendingGuard: SpendingGuard;
+  private configError: string | null = null; // settings that failed validation; nothing is submitted then
+  private guardrailPause: GuardrailPause | null = null;
+  private transactionTracker?: TransactionTracker; // created on first submission
+  private walletSigner?: WalletSigner | null; // created on first submission; null without a key
+  private walletHealthClient?: WalletHealthClient; // created on first wallet check
+  private walletHealth: WalletHealth | null = null;
+  private currentCycleId: string | null = null;
+  private eligibleMarkets: CandidateMarket[] = [];
+  private cyclePredictions = { generated: 0, reused: 0 };
+  private lastCycleUsage: CycleUsage | null = null;
   private isRunning: boolean = false;
+  private starting: Promise<void> | null = null; // a start checking the wallet
+  private cycleInProgress: boolean = false;
+  private skippedCycles: number = 0;
+  private overrunCycles: number = 0;
+  // Transactions go out one at a time even when markets are processed in parallel
+  private submissionLock = new Mutex();
 
   constructor(runtime: IAgentRuntime) {
-    // Return existing instance if it exists (singleton pattern)
-    if (globalInstance) {
-      return globalInstance;
-    }
-
-    this.runtime = runtime;
-    this.config = {
+    super(runtime);
+    this.ledger = new AttestationLedger(runtime);
+    this.paperLedger = new AttestationLedger(runtime, PAPER_LEDGER_TABLE);
+    this.resolutionTracker = new ResolutionTracker(
+      runtime.agentId,
+      this.ledger,
+      this.paperLedger
+    );
+    this.predictionEngine = new PredictionEngine(runtime);
+    this.scheduler = new MarketScheduler();
+    this.attestationConfig = {
       enabled: false,
       interval: 300000, // 5 minutes
       minConfidence: 0.6,
       batchSize: 5,
+      concurrency: 1,
       probabilityChangeThreshold: parseFloat(
         process.env.PROBABILITY_CHANGE_THRESHOLD || '10'
       ), // Default 10% change
+      dryRun: process.env.AUTO_MODE_DRY_RUN === 'true',
+      resolutionCheckInterval: 21600000, // 6 hours
+      multiAttest: { enabled: false, chunkSize: 20 },
+      confirmations: 1,
+      receiptTimeout: 120000, // 2 minutes
+      ...DEFAULT_ADJUSTMENT_SETTINGS,
     };
+    this.reattestationPolicy = this.createReattestationPolicy();
+    this.spendingGuard = new SpendingGuard();
+  }
 
-    // Store global instance
-    globalInstance = this;
+  static async start(runtime: IAgentRuntime): Promise<AttestationService> {
+    const service = new AttestationService(runtime);
 
-    // Initialize service asynchronously
-    this.initializeService().catch(error => {
+    // Waiting for the Sapience plugin can take a while, so don't block agent startup
+    service.initializeService().catch(error => {
       elizaLogger.error('[AttestationService] Failed to initialize:', error);
     });
+    return service;
   }
 
-  static getInstance(runtime?: IAgentRuntime): AttestationService | null {
-    if (!globalInstance && runtime) {
-      globalInstance = new AttestationService(runtime);
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = AttestationService.getInstance(runtime);
+    if (!service) {
+      throw new Error('[AttestationService] Attestation service not found');
     }
-    return globalInstance;
+    await service.stop();
+  }
+
+  static getInstance(runtime: IAgentRuntime): AttestationService | null {
+    return runtime.getService<AttestationService>(
+      AttestationService.serviceType
+    );
   }
 
   private async initializeService(): Promise<void> {
     try {
       elizaLogger.info('[AttestationService] Initializing attestation service');
 
-      // Load config from environment or character settings
-      const settings = (this.runtime?.character?.settings as any)
-        ?.autonomousMode;
-      if (settings) {
-        this.config = { ...this.config, ...settings };
-        elizaLogger.info('[AttestationService] Config loaded');
+      try {
+        this.configure();
+      } catch (error) {
+        // Refuse to submit rather than run without the configured limits
+        this.configError =
+          error instanceof Error ? error.message : String(error);
+        throw error;
       }
+      await this.seedSpendingGuard();
+
+      // Fail early if the attestation chain is misconfigured
+      const chain = getAttestationChain(this.runtime);
+      elizaLogger.info(
+        `[AttestationService] Attesting on ${chain.name} (chain ${chain.chainId}, schema ${chain.schemaId})`
+      );
+      await this.checkWallet();
 
       // Wait for Sapience plugin to be available before starting
-      if (this.config.enabled) {
+      if (this.attestationConfig.enabled) {
         elizaLogger.info(
           '[AttestationService] Waiting for Sapience plugin to initialize...'
         );
@@ -87,6 +325,128 @@ export class AttestationService {
     }
   }
 
+  /**
+   * Load `autonomousMode` from the character (and AUTO_MODE_DRY_RUN) and
+   * validate it. The spending guard is built first, so a setting that fails
+   * later can't leave the unlimited default guard in place.
+   */
+  private configure(): void {
+    const settings = (this.runtime?.character?.settings as any)?.autonomousMode;
+    if (settings) {
+      this.attestationConfig = {
+        ...this.attestationConfig,
+        ...settings,
+        multiAttest: {
+          ...this.attestationConfig.multiAttest,
+          ...settings.multiAttest,
+        },
+      };
+      elizaLogger.info('[AttestationService] Config loaded');
+    }
+    // An operator's AUTO_MODE_DRY_RUN wins over the character file
+    if (process.env.AUTO_MODE_DRY_RUN) {
+      this.attestationConfig.dryRun = process.env.AUTO_MODE_DRY_RUN === 'true';
+    }
+    this.spendingGuard = new SpendingGuard(this.attestationConfig.guardrails);
+    validateAdjustmentSettings(this.attestationConfig);
+    validateWalletSettings(getWalletSettings(this.runtime));
+    this.predictionEngine.initialize();
+    const { chunkSize } = this.attestationConfig.multiAttest;
+    if (!(Number.isInteger(chunkSize) && chunkSize >= 1)) {
+      throw new Error(
+        `[AttestationService] multiAttest.chunkSize must be a positive integer, got ${chunkSize}`
+      );
+    }
+    this.scheduler = new MarketScheduler(this.attestationConfig.scheduler);
+    this.reattestationPolicy = this.createReattestationPolicy();
+  }
+
+  // Nothing goes on-chain while the settings are invalid
+  private assertConfigured(): void {
+    if (this.configError) {
+      throw new Error(
+        `[AttestationService] Not submitting with invalid settings: ${this.configError}`
+      );
+    }
+  }
+
+  private createReattestationPolicy(): ReattestationPolicy {
+    return new ReattestationPolicy({
+      probabilityChangeThreshold:
+        this.attestationConfig.probabilityChangeThreshold,
+      ...this.attestationConfig.reattestation,
+    });
+  }
+
+  // Paper attestations are recorded one by one, so batching only applies live
+  private multiAttestChunkSize(): number | null {
+    const { enabled, chunkSize } = this.attestationConfig.multiAttest;
+    return enabled && !this.attestationConfig.dryRun ? chunkSize : null;
+  }
+
+  private getTransactionTracker(): TransactionTracker {
+    if (!this.transactionTracker) {
+      const chain = getAttestationChain(this.runtime);
+      this.transactionTracker = new TransactionTracker(
+        createChainPublicClient(chain),
+        chain,
+        {
+          confirmations: this.attestationConfig.confirmations,
+          timeout: this.attestationConfig.receiptTimeout,
+        }
+      );
+    }
+    return this.transactionTracker;
+  }
+
+  private getWalletHealthClient(): WalletHealthClient {
+    if (!this.walletHealthClient) {
+      this.walletHealthClient = createChainPublicClient(
+        getAttestationChain(this.runtime)
+      );
+    }
+    return this.walletHealthClient;
+  }
+
+  /**
+   * Check that the agent's wallet can pay for attestations on the configured
+   * chain: its balance and nonce, and that the RPC serves that chain. The
+   * result is kept for getStatus(); null when no private key is configured.
+   */
+  async checkWallet(): Promise<WalletHealth | null> {
+    const address = await this.getWalletAddress();
+    if (!address) {
+      this.walletHealth = null;
+      return null;
+    }
+
+    const chain = getAttestationChain(this.runtime);
+    const health = await checkWalletHealth(
+      this.getWalletHealthClient(),
+      address,
+      chain
+    );
+    if (health.problems.length > 0) {
+      elizaLogger.warn(
+        `[AttestationService] Wallet ${address}: ${health.problems.join('; ')}`
+      );
+    } else {
+      elizaLogger.info(
+        `[AttestationService] Wallet ${address} on ${chain.name}: ${health.balanceEth} ETH, nonce ${health.nonce}`
+      );
+    }
+    this.walletHealth = health;
+    return health;
+  }
+
+  // Paper trading costs nothing, but a live loop needs gas money
+  private async assertFunded(): Promise<void> {
+    const wallet = await this.checkWallet();
+    if (wallet && isUnfunded(wallet)) {
+      throw new UnfundedWalletError(wallet.address, wallet.chainId);
+    }
+  }
+
   private async waitForSapiencePlugin(
     maxRetries: number = 30,
     retryDelay: number = 1000
@@ -114,45 +474,79 @@ export class AttestationService {
     );
   }
 
+  /**
+   * Check the wallet and start the loop. Resolves once the loop is running;
+   * the first cycle can take minutes, so it runs in the background. A start
+   * while another is still checking the wallet waits for that one instead.
+   */
   async startAutonomous(): Promise<void> {
     if (this.isRunning) {
       elizaLogger.warn('[AttestationService] Service already running');
       return;
     }
+    if (this.starting) {
+      elizaLogger.warn('[AttestationService] Service already starting');
+      return this.starting;
+    }
 
-    try {
-      elizaLogger.info(
-        `[AttestationService] Starting (interval: ${this.config.interval}ms)`
-      );
-      console.log(`\nautonomous attestation started:`);
-      console.log(`   • interval: ${this.config.interval / 1000} seconds`);
-      console.log(
-        `   • min confidence: ${(this.config.minConfidence * 100).toFixed(0)}%`
-      );
-      console.log(
-        `   • batch size: ${this.config.batchSize} markets per cycle\n`
-      );
+    // Claimed before the first await so overlapping starts can't both get through
+    this.starting = this.beginAutonomous().finally(() => {
+      this.starting = null;
+    });
+    return this.starting;
+  }
 
-      this.isRunning = true;
+  private async beginAutonomous(): Promise<void> {
+    this.assertConfigured();
+    if (!this.attestationConfig.dryRun) {
+      await this.assertFunded();
+    }
 
-      // Start the autonomous loop
-      this.intervalId = setInterval(async () => {
-        try {
-          await this.attestationCycle();
-        } catch (error) {
-          elizaLogger.error('[AttestationService] Cycle error:', error);
-        }
-      }, this.config.interval);
+    elizaLogger.info(
+      `[AttestationService] Starting (interval: ${this.attestationConfig.interval}ms)`
+    );
+    console.log(`\nautonomous attestation started:`);
+    console.log(
+      `   • interval: ${this.attestationConfig.interval / 1000} seconds`
+    );
+    console.log(
+      `   • min confidence: ${(this.attestationConfig.minConfidence * 100).toFixed(0)}%`
+    );
+    console.log(
+      `   • batch size: ${this.attestationConfig.batchSize} markets per cycle (${this.attestationConfig.concurrency} at a time)`
+    );
+    console.log(
+      `   • mode: ${this.attestationConfig.dryRun ? 'dry run (paper ledger, no transactions)' : 'live'}\n`
+    );
 
-      // Run initial cycle immediately
-      await this.attestationCycle();
-    } catch (error) {
-      elizaLogger.error('[AttestationService] Failed to start:', error);
-      this.isRunning = false;
-    }
+    this.isRunning = true;
+
+    // Start the autonomous loop
+    this.intervalId = setInterval(async () => {
+      try {
+        await this.runCycle();
+      } catch (error) {
+        elizaLogger.error('[AttestationService] Cycle error:', error);
+      }
+    }, this.attestationConfig.interval);
+
+    // Run the first cycle right away, without holding up whoever started the loop
+    this.runCycle().catch(error => {
+      elizaLogger.error('[AttestationService] Cycle error:', error);
+    });
   }
 
   async stop(): Promise<void> {
+    if (this.isRunning) {
+      await this.stopAutonomous();
+    }
+  }
+
+  async stopAutonomous(): Promise<void> {
+    // Let a start in progress finish so its interval can't outlive the stop
+    if (this.starting) {
+      await this.starting.catch(() => {});
+    }
     if (!this.isRunning) {
       elizaLogger.warn('[AttestationService] Service not running');
       return;
@@ -168,14 +562,62 @@ export class AttestationService {
     console.log('autonomous attestation stopped\n');
   }
 
+  isDryRun(): boolean {
+    return this.attestationConfig.dryRun;
+  }
+
+  // Going live while the loop runs gets the same wallet check as starting it
+  async setDryRun(dryRun: boolean): Promise<void> {
+    if (!dryRun && this.isRunning) {
+      await this.assertFunded();
+    }
+    this.attestationConfig.dryRun = dryRun;
+    elizaLogger.info(
+      `[AttestationService] Dry run ${dryRun ? 'enabled' : 'disabled'}`
+    );
+  }
+
+  /**
+   * Run one attestation cycle unless the previous one is still going, in
+   * which case this tick is skipped rather than overlapping it.
+   */
+  private async runCycle(): Promise<void> {
+    if (this.cycleInProgress) {
+      this.skippedCycles++;
+      elizaLogger.warn(
+        `[AttestationService] Previous cycle still running - skipping this one (${this.skippedCycles} skipped so far)`
+      );
+      return;
+    }
+
+    this.cycleInProgress = true;
+    const startedAt = Date.now();
+    try {
+      await this.attestationCycle();
+    } finally {
+      this.cycleInProgress = false;
+      const duration = Date.now() - startedAt;
+      if (duration > this.attestationConfig.interval) {
+        this.overrunCycles++;
+        elizaLogger.warn(
+          `[AttestationService] Cycle took ${Math.round(duration / 1000)}s, longer than the ${Math.round(this.attestationConfig.interval / 1000)}s interval`
+        );
+      }
+    }
+  }
+
   private async attestationCycle(): Promise<void> {
-    elizaLogger.info('[AttestationService] Starting attestation cycle');
+    const cycleId = randomUUID();
+    this.currentCycleId = cycleId;
+    this.predictionEngine.usage.reset();
+    this.cyclePredictions = { generated: 0, reused: 0 };
+    elizaLogger.info(
+      `[AttestationService] Starting attestation cycle ${cycleId}`
+    );
 
     try {
-      const sapienceService = this.runtime.getService(
-        'sapience'
-      ) as SapienceService;
-      if (!sapienceService) {
+      const sapience = SapienceClient.fromRuntime(this.runtime);
+      if (!sapience) {
         elizaLogger.error(
           '[AttestationService] Sapience service not available - will retry next cycle'
         );
@@ -183,27 +625,50 @@ export class AttestationService {
       }
 
       // First, let's get the wallet address and test attestation retrieval
-      await this.testAttestationRetrieval(sapienceService);
+      await this.testAttestationRetrieval(sapience);
 
-      // Fetch active markets
-      const marketsResponse = await sapienceService.callTool(
-        'sapience',
-        'list_active_markets',
-        {}
+      // Score past attestations against markets that have settled since the last check
+      await this.resolutionTracker.refreshIfDue(
+        sapience,
+        this.attestationConfig.resolutionCheckInterval
       );
 
-      if (!marketsResponse || !marketsResponse.content) {
-        elizaLogger.error('[AttestationService] Failed to fetch markets');
-        return;
+      // Settle ledger entries whose transactions were still pending
+      await this.reconcilePendingTransactions();
+
+      if (!this.attestationConfig.dryRun) {
+        await this.checkWallet();
+      }
+
+      // Don't spend predictions on a cycle that couldn't submit anything
+      if (!this.attestationConfig.dryRun) {
+        const violation = await this.checkGuardrails(1);
+        if (violation) {
+          elizaLogger.warn(
+            `[AttestationService] Paused by guardrail (${violation.reason}) - skipping this cycle`
+          );
+          return;
+        }
       }
 
-      const markets = JSON.parse(marketsResponse.content[0].text);
+      // Fetch active markets
+      const markets = await sapience.listActiveMarkets();
       elizaLogger.info(
         `[AttestationService] Found ${markets.length} active markets`
       );
 
       // Filter markets for attestation based on time and probability changes
-      const candidateMarkets = await this.filterMarketsForAttestation(markets);
+      const candidateMarkets = await this.filterMarketsForAttestation(
+        sapience,
+        markets
+      );
+
+      // Rank by priority so the batch isn't just whatever the API listed first
+      const ranked = this.scheduler.schedule(
+        candidateMarkets,
+        this.attestationConfig.batchSize
+      );
+      this.eligibleMarkets = ranked;
 
       elizaLogger.info(
         `[AttestationService] ${candidateMarkets.length} markets eligible for attestation`
@@ -211,26 +676,33 @@ export class AttestationService {
 
       console.log(
         '📊 Markets eligible for attestation:',
-        candidateMarkets.slice(0, 3).map((m: any) => ({
+        ranked.slice(0, 3).map(m => ({
           id: m.id,
-          question: m.question?.substring(0, 50) + '...',
+          question: m.question.substring(0, 50) + '...',
           reason: m._attestationReason,
+          priority: m._priority.priority.toFixed(2),
         }))
       );
 
-      // Process markets in batches
-      const batch = candidateMarkets.slice(0, this.config.batchSize);
+      // Process the highest-priority markets
+      const batch = ranked.slice(0, this.attestationConfig.batchSize);
 
-      for (const market of batch) {
-        try {
-          await this.attestToMarket(market);
-        } catch (error) {
-          const marketId = market.marketId || market.id;
-          elizaLogger.error(
-            `[AttestationService] Failed to process market ${market.id} (marketId: ${marketId}):`,
-            error
-          );
-        }
+      if (this.multiAttestChunkSize() !== null) {
+        await this.attestInChunks(batch, cycleId);
+      } else {
+        const results = await mapWithConcurrency(
+          batch,
+          this.attestationConfig.concurrency,
+          market => this.attestToMarket(market)
+        );
+        results.forEach((result, i) => {
+          if (result.status === 'rejected') {
+            elizaLogger.error(
+              `[AttestationService] Failed to process market ${batch[i].id} (marketId: ${batch[i].marketId}):`,
+              result.reason
+            );
+          }
+        });
       }
 
       elizaLogger.info(
@@ -238,11 +710,26 @@ export class AttestationService {
       );
     } catch (error) {
       elizaLogger.error('[AttestationService] Cycle failed:', error);
+    } finally {
+      this.lastCycleUsage = {
+        cycleId,
+        ...this.predictionEngine.usage.snapshot(
+          this.attestationConfig.tokenPricing ?? DEFAULT_TOKEN_PRICING
+        ),
+        predictions: this.cyclePredictions.generated,
+        reusedPredictions: this.cyclePredictions.reused,
+      };
+      elizaLogger.info(
+        `[AttestationService] Cycle ${cycleId} used ${this.lastCycleUsage.calls} model calls (~${this.lastCycleUsage.totalTokens} tokens) for ${this.lastCycleUsage.predictions} predictions`
+      );
     }
   }
 
-  private async filterMarketsForAttestation(markets: any[]): Promise<any[]> {
-    const candidateMarkets: any[] = [];
+  private async filterMarketsForAttestation(
+    sapience: SapienceClient,
+    markets: Market[]
+  ): Promise<CandidateMarket[]> {
+    const candidateMarkets: CandidateMarket[] = [];
 
     // Get our wallet address to query attestations
     const walletAddress = await this.getWalletAddress();
@@ -261,159 +748,158 @@ export class AttestationService {
     console.log(
       `[AttestationService] Fetching all attestations for wallet: ${walletAddress}`
     );
-    const allMyAttestations = await this.getAllMyAttestations(walletAddress);
+    const allMyAttestations = await this.getAllMyAttestations(
+      sapience,
+      walletAddress
+    );
     console.log(
       `[AttestationService] Found ${allMyAttestations.length} total attestations by this wallet`
     );
 
-    for (const market of markets) {
-      try {
-        // Use marketAddress + marketId combination to uniquely identify markets
-        const marketAddress = market.marketGroupAddress || market.marketAddress;
-        const marketId = market.marketId || market.id;
-
-        console.log(
-          `[AttestationService] Checking market: id=${market.id}, marketId=${marketId}, address=${marketAddress?.substring(0, 8)}..., question="${market.question?.substring(0, 40)}..."`
-        );
+    // Markets due for a look are re-predicted, so check them in parallel
+    const results = await mapWithConcurrency(
+      markets,
+      this.attestationConfig.concurrency,
+      market => this.evaluateMarket(market, allMyAttestations)
+    );
+    for (const result of results) {
+      if (result.status === 'fulfilled' && result.value) {
+        candidateMarkets.push(result.value);
+      }
+    }
 
-        // Find attestation matching BOTH marketAddress AND marketId
-        const matchingAttestation = allMyAttestations.find(
-          att =>
-            att.marketAddress?.toLowerCase() === marketAddress?.toLowerCase() &&
-            att.marketId?.toString() === marketId?.toString()
-        );
+    return candidateMarkets;
+  }
 
-        console.log(
-          `[AttestationService] Found matching attestation: ${matchingAttestation ? 'YES' : 'NO'}`
-        );
+  // Whether a market should be attested this cycle, and why; null to skip it
+  private async evaluateMarket(
+    market: Market,
+    allMyAttestations: MarketAttestation[]
+  ): Promise<CandidateMarket | null> {
+    try {
+      // Use marketAddress + marketId combination to uniquely identify markets
+      const { marketAddress, marketId } = market;
 
-        const lastAttestation = matchingAttestation || null;
+      console.log(
+        `[AttestationService] Checking market: id=${market.id}, marketId=${marketId}, address=${marketAddress.substring(0, 8)}..., question="${market.question.substring(0, 40)}..."`
+      );
 
-        if (!lastAttestation) {
-          // Never attested before
-          market._attestationReason = `Never attested (address: ${marketAddress?.substring(0, 8)}..., marketId: ${marketId})`;
-          candidateMarkets.push(market);
-          continue;
-        }
+      // Find attestation matching BOTH marketAddress AND marketId
+      const matchingAttestation = allMyAttestations.find(
+        att =>
+          att.marketAddress === marketAddress.toLowerCase() &&
+          att.marketId === marketId
+      );
 
-        const createdAt = new Date(lastAttestation.createdAt);
-        const hoursSinceLastAttestation =
-          (Date.now() - createdAt.getTime()) / (1000 * 60 * 60);
+      console.log(
+        `[AttestationService] Found matching attestation: ${matchingAttestation ? 'YES' : 'NO'}`
+      );
 
-        if (hoursSinceLastAttestation >= 24) {
-          // 24+ hours have passed - check if probability changed enough to warrant re-attestation
-          const currentPrediction = await this.generatePrediction(market);
+      const lastAttestation = matchingAttestation || null;
 
-          if (currentPrediction && lastAttestation.prediction) {
-            // Decode the previous prediction from the uint160 value
-            const previousProbability = this.decodeProbability(
-              lastAttestation.prediction
-            );
+      if (!lastAttestation) {
+        // Never attested before
+        return {
+          ...market,
+          _attestationReason: `Never attested (address: ${marketAddress.substring(0, 8)}..., marketId: ${marketId})`,
+          _scheduling: { lastAttestedAt: null, estimatedProbability: null },
+        };
+      }
 
-            if (previousProbability !== null) {
-              const probabilityChange = Math.abs(
-                currentPrediction.probability - previousProbability
-              );
-
-              if (probabilityChange >= this.config.probabilityChangeThreshold) {
-                market._attestationReason = `24h+ elapsed AND probability changed by ${probabilityChange.toFixed(1)}% (was ${previousProbability.toFixed(1)}%, now ${currentPrediction.probability}%)`;
-                candidateMarkets.push(market);
-                continue;
-              } else {
-                console.log(
-                  `[AttestationService] Market ${marketId}: 24h+ elapsed but probability only changed by ${probabilityChange.toFixed(1)}% (threshold: ${this.config.probabilityChangeThreshold}%) - skipping`
-                );
-              }
-            }
-          }
-          // If 24h+ passed but couldn't generate prediction or no significant change, skip
-          continue;
-        }
+      const previousProbability = this.decodeProbability(
+        lastAttestation.prediction
+      );
+      const scheduling: SchedulingHints = {
+        lastAttestedAt: lastAttestation.createdAt,
+        estimatedProbability: previousProbability,
+      };
+      const decision = this.reattestationPolicy.evaluate(
+        market,
+        lastAttestation.createdAt
+      );
 
-        // For markets < 24h old, we don't need to check them at all
+      if (decision.action === 'skip') {
         console.log(
-          `[AttestationService] Market ${marketId}: Only ${hoursSinceLastAttestation.toFixed(1)}h since last attestation - skipping`
-        );
-        continue;
-      } catch (error) {
-        const marketId = market.marketId || market.id;
-        elizaLogger.warn(
-          `[AttestationService] Could not check attestation status for market ${market.id} (marketId: ${marketId}):`,
-          error
+          `[AttestationService] Market ${marketId}: ${decision.reason} - skipping`
         );
-        // If we can't check, consider it eligible to be safe
-        market._attestationReason = `Could not verify previous attestation (marketId: ${marketId})`;
-        candidateMarkets.push(market);
+        return null;
       }
-    }
 
-    return candidateMarkets;
-  }
+      if (decision.action === 'reattest') {
+        return {
+          ...market,
+          _attestationReason: decision.reason,
+          _scheduling: scheduling,
+        };
+      }
 
-  private async generatePrediction(market: any): Promise<{
-    probability: number;
-    reasoning: string;
-    confidence: number;
-  } | null> {
-    try {
-      const predictionPrompt = `
-        You are a helpful AI that generates concise tweets. You NEVER use any hashtags or emojis. 
-        The tone should be like Matt Levine - savvy, nerdy. NEVER be corny or cliche. 
-        Keep under 280 characters. Make clear what the question is and your prediction, current tense.
-        All lowercase.
-        
-        IMPORTANT: Before making your prediction, search the web for recent news and developments related to this market question. Use current information to inform your analysis.
-        
-        Market Question: ${market.question}
-        Current Market Price: ${market.currentPrice || 50}% YES
-        Volume: ${market.volume || 0}
-        End Date: ${new Date(market.endTimestamp * 1000).toISOString()}
-        
-        Steps:
-        1. Search the web for recent news/events related to: "${market.question}"
-        2. Analyze both the market data above AND the recent information you found
-        3. Generate a prediction that incorporates current events
-        
-        Respond with ONLY valid JSON (no other text):
-        {
-          "probability": <number from 0 to 100>,
-          "reasoning": "<savvy tweet-like analysis under 180 characters incorporating recent info, all lowercase>",
-          "confidence": <number from 0.0 to 1.0>
-        }
-        
-        Example:
-        {"probability": 65, "reasoning": "recent earnings beat expectations but regulatory headwinds mounting. market pricing in mixed signals", "confidence": 0.7}
-      `;
+      // Due for a look - re-attest only if the probability changed enough
+      const currentPrediction = await this.generatePrediction(market);
 
-      const predictionResponse = await this.runtime.useModel(
-        ModelType.TEXT_SMALL,
-        {
-          prompt: predictionPrompt,
-        }
-      );
+      if (currentPrediction && previousProbability !== null) {
+        const probabilityChange = Math.abs(
+          currentPrediction.probability - previousProbability
+        );
 
-      let prediction;
-      try {
-        prediction = JSON.parse(predictionResponse);
-      } catch (error) {
-        const jsonMatch = predictionResponse.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          prediction = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error('Model did not return JSON format for prediction');
+        if (probabilityChange >= decision.threshold) {
+          return {
+            ...market,
+            _attestationReason: `${decision.elapsedHours.toFixed(1)}h elapsed AND probability changed by ${probabilityChange.toFixed(1)}% (was ${previousProbability.toFixed(1)}%, now ${currentPrediction.probability}%)`,
+            _scheduling: {
+              ...scheduling,
+              estimatedProbability: currentPrediction.probability,
+            },
+            _prediction: currentPrediction,
+          };
         }
-      }
 
-      // Validate the prediction object
-      if (
-        prediction.probability === undefined ||
-        !prediction.reasoning ||
-        prediction.confidence === undefined
-      ) {
-        throw new Error('Model returned incomplete prediction data');
+        console.log(
+          `[AttestationService] Market ${marketId}: ${decision.elapsedHours.toFixed(1)}h elapsed but probability only changed by ${probabilityChange.toFixed(1)}% (threshold: ${decision.threshold}%) - skipping`
+        );
       }
+      // If the prediction failed or didn't change enough, skip
+      return null;
+    } catch (error) {
+      elizaLogger.warn(
+        `[AttestationService] Could not check attestation status for market ${market.id} (marketId: ${market.marketId}):`,
+        error
+      );
+      // If we can't check, consider it eligible to be safe
+      return {
+        ...market,
+        _attestationReason: `Could not verify previous attestation (marketId: ${market.marketId})`,
+      };
+    }
+  }
 
-      return prediction;
+  /**
+   * Predict a market and post-process the probability per `autonomousMode`
+   * (market anchoring, extremization, bounds). This is the probability that
+   * gets attested, by the autonomous loop and by ATTEST_MARKET alike.
+   * Model calls count toward the current cycle unless `usage` is given.
+   */
+  async predict(
+    market: PredictionInput,
+    usage?: ModelUsageTracker
+  ): Promise<AdjustedPrediction> {
+    const prediction = await this.predictionEngine.predict(market, usage);
+    const { probability, adjustment } = adjustProbability(
+      prediction.probability,
+      market.currentPrice,
+      this.attestationConfig
+    );
+    return { ...prediction, probability, adjustment };
+  }
+
+  private async generatePrediction(
+    market: Market,
+    usage?: ModelUsageTracker
+  ): Promise<AdjustedPrediction | null> {
+    try {
+      if (!usage) {
+        this.cyclePredictions.generated++;
+      }
+      return await this.predict(market, usage);
     } catch (error) {
       elizaLogger.error(
         `[AttestationService] Failed to generate prediction for market ${market.id}:`,
@@ -426,13 +912,13 @@ export class AttestationService {
 
   private async getWalletAddress(): Promise<string | null> {
     try {
-      const privateKey = process.env.EVM_PRIVATE_KEY || process.env.PRIVATE_KEY || process.env.WALLET_PRIVATE_KEY;
+      const privateKey = resolvePrivateKey();
       
       if (!privateKey) {
         elizaLogger.error('[AttestationService] No private key found in environment variables');
         return null;
       }
-      const knownAddress = privateKeyToAddress(privateKey as `0x${string}`);
+      const knownAddress = privateKeyToAddress(privateKey);
 
       console.log('[AttestationService] Using wallet address:', knownAddress);
       return knownAddress.toLowerCase();
@@ -445,40 +931,41 @@ export class AttestationService {
     }
   }
 
-  private async getAllMyAttestations(walletAddress: string): Promise<any[]> {
+  private async getAllMyAttestations(
+    sapience: SapienceClient,
+    walletAddress: string
+  ): Promise<MarketAttestation[]> {
     try {
-      const sapienceService = this.runtime.getService(
-        'sapience'
-      ) as SapienceService;
-
       console.log(
         `[AttestationService] Querying all attestations for wallet: ${walletAddress}`
       );
 
-      // Get all attestations by our wallet address
-      const result = await sapienceService.callTool(
-        'sapience',
-        'get_attestations_by_address',
-        {
-          attesterAddress: walletAddress,
-          // Don't filter by marketId - we want ALL attestations for this wallet
-        }
+      // Get all attestations by our wallet address (most recent first)
+      const attestations =
+        await sapience.getAttestationsByAddress(walletAddress);
+      console.log(
+        `[AttestationService] Retrieved ${attestations.length} attestations for wallet ${walletAddress}`
       );
 
-      if (result && result.content) {
-        const attestations = JSON.parse(result.content[0].text);
-        console.log(
-          `[AttestationService] Retrieved ${attestations.length} attestations for wallet ${walletAddress}`
-        );
-
-        // Sort by createdAt descending so we get most recent first
-        return attestations.sort(
-          (a: any, b: any) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
+      if (!this.attestationConfig.dryRun) {
+        return attestations;
       }
 
-      return [];
+      // In dry run, paper attestations count as ours so markets are not re-predicted every cycle
+      const paperAttestations = (await this.paperLedger.list()).map(
+        (record): MarketAttestation => ({
+          id: record.id ?? null,
+          attester: walletAddress,
+          marketAddress: record.marketAddress.toLowerCase(),
+          marketId: record.marketId,
+          prediction: probabilityToSqrtPriceX96(record.probability).toString(),
+          comment: record.reasoning,
+          createdAt: record.timestamp,
+        })
+      );
+      return [...paperAttestations, ...attestations].sort(
+        (a, b) => b.createdAt - a.createdAt
+      );
     } catch (error) {
       elizaLogger.error(
         `[AttestationService] Failed to get all attestations for wallet ${walletAddress}:`,
@@ -489,97 +976,35 @@ export class AttestationService {
   }
 
   private async getLastAttestationForMarket(
+    sapience: SapienceClient,
     marketId: string,
     walletAddress: string
-  ): Promise<any | null> {
+  ): Promise<MarketAttestation | null> {
     try {
-      const sapienceService = this.runtime.getService(
-        'sapience'
-      ) as SapienceService;
-
       console.log(
-        `[AttestationService] Querying attestations for marketId: ${marketId} (type: ${typeof marketId}), address: ${walletAddress}`
+        `[AttestationService] Querying attestations for marketId: ${marketId}, address: ${walletAddress}`
       );
 
       // Use get_recent_attestations with marketId filter, plus client-side address filtering
-      const result = await sapienceService.callTool(
-        'sapience',
-        'get_recent_attestations',
-        {
-          limit: 100, // Get more attestations to ensure we find matches
-          marketId: marketId.toString(), // Filter by marketId at DB level for efficiency
-        }
-      );
-
+      const allAttestations = await sapience.getRecentAttestations({
+        limit: 100, // Get more attestations to ensure we find matches
+        marketId, // Filter by marketId at DB level for efficiency
+      });
       console.log(
-        `[AttestationService] Query result for get_recent_attestations:`,
-        result ? 'Success' : 'Failed'
+        `[AttestationService] Raw response contains ${allAttestations.length} total recent attestations`
       );
 
-      if (result && result.content) {
-        const allAttestations = JSON.parse(result.content[0].text);
-        console.log(
-          `[AttestationService] Raw response contains ${allAttestations.length} total recent attestations`
-        );
-
-        // Filter by both address and marketId (case-insensitive address comparison)
-        const targetMarketId = marketId.toString();
-        const targetAddress = walletAddress.toLowerCase();
-
-        const matchingAttestations = allAttestations.filter((att: any) => {
-          const attMarketId = att.marketId ? att.marketId.toString() : '';
-          const attAddress = att.attester ? att.attester.toLowerCase() : '';
-
-          const addressMatch = attAddress === targetAddress;
-          const marketIdMatch = attMarketId === targetMarketId;
-          const bothMatch = addressMatch && marketIdMatch;
-
-          // Only log mismatches for debugging
-          if (!bothMatch) {
-            console.log(
-              `[AttestationService] Filtering out: address=${att.attester} (${addressMatch}), marketId=${attMarketId} (${marketIdMatch})`
-            );
-          }
-
-          return bothMatch;
-        });
+      const targetAddress = walletAddress.toLowerCase();
+      const latest = allAttestations.find(
+        att => att.attester === targetAddress && att.marketId === marketId
+      );
 
+      if (!latest) {
         console.log(
-          `[AttestationService] Found ${matchingAttestations.length} attestations matching both address=${targetAddress} and marketId=${targetMarketId}`
+          `[AttestationService] No attestations found matching address=${targetAddress} and marketId=${marketId}`
         );
-
-        if (matchingAttestations.length > 0) {
-          console.log(`[AttestationService] Sample matching attestation:`, {
-            marketId: matchingAttestations[0].marketId,
-            attester: matchingAttestations[0].attester,
-            createdAt: matchingAttestations[0].createdAt,
-          });
-
-          // Return the most recent matching attestation
-          const sorted = matchingAttestations.sort(
-            (a: any, b: any) =>
-              new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-          );
-          return sorted[0];
-        } else {
-          console.log(
-            `[AttestationService] No attestations found matching address=${targetAddress} and marketId=${targetMarketId}`
-          );
-          // Debug: show sample attestations to help diagnose
-          if (allAttestations.length > 0) {
-            console.log(
-              `[AttestationService] Sample attestation from response:`,
-              {
-                attester: allAttestations[0].attester,
-                marketId: allAttestations[0].marketId,
-                createdAt: allAttestations[0].createdAt,
-              }
-            );
-          }
-        }
       }
-
-      return null;
+      return latest ?? null;
     } catch (error) {
       elizaLogger.error(
         `[AttestationService] Failed to get attestations for market ${marketId}:`,
@@ -592,26 +1017,7 @@ export class AttestationService {
   private decodeProbability(predictionValue: string): number | null {
     try {
       // The prediction value is stored as a uint160 representing sqrtPriceX96
-      // We need to reverse the calculation from buildAttestationCalldata
-      // prediction.reasoning.length > 180 ? prediction.reasoning.substring(0, 177) + '...' : prediction.reasoning,
-
-      // For now, let's implement a basic decoder
-      // The exact formula is: sqrtPriceX96 = sqrt(probability/100) * Q96
-      const predictionBigInt = BigInt(predictionValue);
-      const Q96 = BigInt('79228162514264337593543950336');
-
-      // Reverse: sqrt(price) = (sqrtPriceX96 * 10^18) / Q96
-      const sqrtPrice =
-        Number((predictionBigInt * BigInt(10 ** 18)) / Q96) / 10 ** 18;
-
-      // price = sqrtPrice^2
-      const price = sqrtPrice * sqrtPrice;
-
-      // Convert back to percentage (0-100)
-      const probability = price * 100;
-
-      // Clamp to valid range
-      return Math.max(0, Math.min(100, probability));
+      return sqrtPriceX96ToProbability(predictionValue);
     } catch (error) {
       elizaLogger.warn(
         `[AttestationService] Failed to decode probability ${predictionValue}:`,
@@ -622,56 +1028,31 @@ export class AttestationService {
   }
 
   private async testAttestationRetrieval(
-    sapienceService: SapienceService
+    sapience: SapienceClient
   ): Promise<void> {
     try {
       elizaLogger.info('[AttestationService] Testing attestation retrieval...');
 
       // Try to get the wallet address from the environment
-      const privateKey =
-        process.env.PRIVATE_KEY ||
-        process.env.WALLET_PRIVATE_KEY ||
-        process.env.EVM_PRIVATE_KEY;
+      const privateKey = resolvePrivateKey();
       console.log('[AttestationService] Private key available:', !!privateKey);
 
       if (privateKey) {
-        // We need to derive the public address from the private key
-        // The sapience plugin should be doing this - let's see if we can access it
-
-        // For now, let's try calling get_recent_attestations to see what's in the DB
-        const recentResult = await sapienceService.callTool(
-          'sapience',
-          'get_recent_attestations',
-          { limit: 5 }
-        );
-
+        // Check what is in the DB via get_recent_attestations
+        const attestations = await sapience.getRecentAttestations({ limit: 5 });
         console.log(
-          '[AttestationService] Recent attestations result:',
-          JSON.stringify(recentResult, null, 2)
+          `[AttestationService] Found ${attestations.length} recent attestations in DB`
         );
 
-        if (recentResult && recentResult.content) {
-          const attestations = JSON.parse(recentResult.content[0].text);
+        if (attestations.length > 0) {
           console.log(
-            `[AttestationService] Found ${attestations.length} recent attestations in DB`
+            '[AttestationService] Sample attestation:',
+            attestations[0]
           );
-
-          if (attestations.length > 0) {
-            console.log(
-              '[AttestationService] Sample attestation:',
-              attestations[0]
-            );
-            console.log('[AttestationService] Attester addresses in DB:', [
-              ...new Set(attestations.map((a: any) => a.attester)),
-            ]);
-          }
+          console.log('[AttestationService] Attester addresses in DB:', [
+            ...new Set(attestations.map(a => a.attester)),
+          ]);
         }
-
-        // TODO: Once we figure out how to get the wallet address properly,
-        // we can test get_attestations_by_address with the correct address
-        console.log(
-          '[AttestationService] Need to implement proper address derivation from private key'
-        );
       } else {
         elizaLogger.warn(
           '[AttestationService] No private key found in environment'
@@ -685,122 +1066,308 @@ export class AttestationService {
     }
   }
 
-  private async attestToMarket(market: any): Promise<void> {
+  /**
+   * Attest to a single active market on request, outside the autonomous cycle.
+   * Returns the recorded attestation, or null when it was skipped or failed.
+   */
+  async attestMarketById(
+    marketId: string
+  ): Promise<NewAttestationRecord | null> {
+    const sapience = SapienceClient.fromRuntime(this.runtime);
+    if (!sapience) {
+      throw new Error('[AttestationService] Sapience service not available');
+    }
+
+    const markets = await sapience.listActiveMarkets();
+    const market = markets.find(m => m.id === marketId);
+    if (!market) {
+      throw new MarketNotFoundError(marketId);
+    }
+
+    // Counted on its own so it doesn't show up in a running cycle's usage
+    const usage = new ModelUsageTracker();
+    const record = await this.attestToMarket(
+      { ...market, _attestationReason: 'Manual request' },
+      null,
+      usage
+    );
+    const { calls, totalTokens } = usage.snapshot();
+    elizaLogger.info(
+      `[AttestationService] Manual attestation of market ${marketId} used ${calls} model calls (~${totalTokens} tokens)`
+    );
+    return record;
+  }
+
+  /**
+   * Predict a market and build the attestation for it, or null if the
+   * market should not be attested (no prediction, low confidence, or a
+   * payload that doesn't decode back to the market). Predictions count
+   * toward the current cycle unless `usage` is given.
+   */
+  private async prepareAttestation(
+    market: CandidateMarket,
+    usage?: ModelUsageTracker
+  ): Promise<PreparedAttestation | null> {
     try {
-      const marketId = market.marketId || market.id;
+      const { marketId } = market;
       elizaLogger.info(
         `[AttestationService] Analyzing market ${market.id} (marketId: ${marketId})`
       );
       console.log(
-        `analyzing market #${marketId}: ${market.question?.substring(0, 80)}...`
+        `analyzing market #${marketId}: ${market.question.substring(0, 80)}...`
       );
       console.log(`reason for attestation: ${market._attestationReason}`);
 
-      // Generate prediction for this market
-      const prediction = await this.generatePrediction(market);
+      // Reuse the prediction the filter made for this market, if any, so a
+      // market costs one prediction per cycle and the decision can't flip
+      if (market._prediction) {
+        this.cyclePredictions.reused++;
+      }
+      const prediction =
+        market._prediction ?? (await this.generatePrediction(market, usage));
 
       if (!prediction) {
         elizaLogger.error(
           `[AttestationService] Failed to generate prediction for market ${market.id}`
         );
-        return;
+        return null;
       }
 
       console.log(
         `prediction: ${prediction.probability}% yes (confidence: ${prediction.confidence})`
       );
+      if (prediction.probability !== prediction.adjustment.modelProbability) {
+        console.log(
+          `adjusted from model's ${prediction.adjustment.modelProbability}% (market: ${prediction.adjustment.marketPrice ?? 'n/a'}%)`
+        );
+      }
       console.log(`reasoning: ${prediction.reasoning}`);
 
       // Check confidence threshold
-      if (prediction.confidence < this.config.minConfidence) {
+      if (prediction.confidence < this.attestationConfig.minConfidence) {
         elizaLogger.info(
           `[AttestationService] Skipping market ${market.id} - confidence ${prediction.confidence} below threshold`
         );
-        return;
+        return null;
       }
 
       // Build attestation calldata
+      const chain = getAttestationChain(this.runtime);
       const attestationData = await buildAttestationCalldata(
         {
-          marketId: parseInt(market.marketId),
-          address:
-            market.marketGroupAddress ||
-            market.contractAddress ||
-            '0x0000000000000000000000000000000000000000',
+          marketId: parseInt(marketId),
+          address: market.marketAddress,
           question: market.question,
         },
         prediction,
-        42161 // Arbitrum chain ID
+        chain
       );
 
       if (!attestationData) {
         elizaLogger.error(
           `[AttestationService] Failed to build attestation for market ${market.id}`
         );
-        return;
+        return null;
       }
 
-      // Format transaction data for submitTransactionAction
-      const transactionData = {
-        to: attestationData.to,
-        data: attestationData.data,
-        value: attestationData.value || '0',
-      };
+      // Read back what we are about to submit so the on-chain payload is verified
+      const decoded = decodeAttestationCalldata(
+        attestationData.data as Hex,
+        chain.schemaId
+      );
+      if (
+        decoded.marketId !== marketId ||
+        decoded.marketAddress.toLowerCase() !==
+          market.marketAddress.toLowerCase()
+      ) {
+        elizaLogger.error(
+          `[AttestationService] Built attestation for market ${market.id} does not match (decoded marketId: ${decoded.marketId}, address: ${decoded.marketAddress})`
+        );
+        return null;
+      }
 
-      // Try to submit using submitTransactionAction
-      const actions = this.runtime.actions || [];
-      const submitAction = actions.find(a => a.name === 'SUBMIT_TRANSACTION');
-
-      if (submitAction) {
-        try {
-          // Create a message for the submit action
-          const transactionMessage: Memory = {
-            entityId: '00000000-0000-0000-0000-000000000000' as any,
-            agentId: this.runtime.agentId,
-            roomId: '00000000-0000-0000-0000-000000000000' as any,
-            content: {
-              text: `Submit this transaction: ${JSON.stringify(transactionData)}`,
-              action: 'SUBMIT_TRANSACTION',
-            },
-            createdAt: Date.now(),
-          };
+      return { market, prediction, calldata: attestationData };
+    } catch (error) {
+      elizaLogger.error(
+        `[AttestationService] Failed to process market ${market.id} (marketId: ${market.marketId}):`,
+        error
+      );
+      return null;
+    }
+  }
 
-          elizaLogger.info(
-            `[AttestationService] Submitting transaction to ${attestationData.to}`
-          );
+  private async attestToMarket(
+    market: CandidateMarket,
+    cycleId: string | null = this.currentCycleId,
+    usage?: ModelUsageTracker
+  ): Promise<NewAttestationRecord | null> {
+    const prepared = await this.prepareAttestation(market, usage);
+    if (!prepared) {
+      return null;
+    }
 
-          // Execute the submit transaction action
-          const txResult = await submitAction.handler(
-            this.runtime,
-            transactionMessage,
-            undefined,
-            {},
-            undefined
-          );
+    try {
+      if (this.attestationConfig.dryRun) {
+        const paperRecord = this.buildRecord(prepared, cycleId);
+        await this.recordAttestation(this.paperLedger, paperRecord);
+        console.log(
+          `paper attestation (not submitted): market #${market.id}: ${prepared.prediction.probability}% yes`
+        );
+        return paperRecord;
+      }
 
-          elizaLogger.info(
-            '[AttestationService] Transaction submission completed'
-          );
-        } catch (error) {
-          elizaLogger.error(
-            `[AttestationService] Failed to submit transaction:`,
-            error
-          );
-          // Continue even if submission fails - still record the attestation attempt
-        }
-      } else {
-        elizaLogger.warn(
-          '[AttestationService] SUBMIT_TRANSACTION action not available'
+      const [record] = await this.submitAttestations([prepared], cycleId);
+      return record;
+    } catch (error) {
+      elizaLogger.error(
+        `[AttestationService] Failed to process market ${market.id} (marketId: ${market.marketId}):`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Prepare the batch in parallel, then submit what is ready in `multiAttest`
+   * transactions of up to `multiAttest.chunkSize` attestations each.
+   */
+  private async attestInChunks(
+    batch: CandidateMarket[],
+    cycleId: string
+  ): Promise<void> {
+    const results = await mapWithConcurrency(
+      batch,
+      this.attestationConfig.concurrency,
+      market => this.prepareAttestation(market)
+    );
+    const ready = results.flatMap(result =>
+      result.status === 'fulfilled' && result.value ? [result.value] : []
+    );
+
+    const chunkSize = this.multiAttestChunkSize() ?? 1;
+    for (let i = 0; i < ready.length; i += chunkSize) {
+      const chunk = ready.slice(i, i + chunkSize);
+      try {
+        await this.submitAttestations(chunk, cycleId);
+      } catch (error) {
+        elizaLogger.error(
+          `[AttestationService] Failed to submit attestations for markets ${chunk.map(p => p.market.id).join(', ')}:`,
+          error
         );
       }
+    }
+  }
 
-      // Record attestation with probability and confidence
-      this.attestationHistory.set(market.id, {
-        timestamp: new Date(),
-        probability: prediction.probability,
-        confidence: prediction.confidence,
-      });
+  /**
+   * Submit prepared attestations in one transaction: a plain `attest` for a
+   * single market, `multiAttest` for several. Every attestation is recorded
+   * in the ledger whether or not the submission went through, then updated
+   * with the outcome once the receipt arrives.
+   */
+  private async submitAttestations(
+    prepared: PreparedAttestation[],
+    cycleId: string | null
+  ): Promise<NewAttestationRecord[]> {
+    const batched = prepared.length > 1;
+    const markets = prepared.map(p => `#${p.market.id}`).join(', ');
+    const attestationData = batched
+      ? this.buildMultiAttestation(prepared)
+      : prepared[0].calldata;
+
+    const transactionData: TransactionRequest = {
+      to: attestationData.to,
+      data: attestationData.data,
+      value: attestationData.value || '0',
+      chainId: attestationData.chainId,
+    };
 
+    let txHash: string | null = null;
+    let txError: string | null = null;
+    let gasCost: bigint | null = null;
+    try {
+      elizaLogger.info(
+        `[AttestationService] Submitting transaction to ${attestationData.to} for ${batched ? `${prepared.length} markets (${markets})` : `market ${markets}`}`
+      );
+      const submitted = await this.submitTransaction(
+        transactionData,
+        prepared.length
+      );
+      txHash = submitted.txHash;
+      gasCost = submitted.gasCost;
+
+      elizaLogger.info(
+        `[AttestationService] Transaction submitted via ${submitted.submitter}${txHash ? ` (tx: ${txHash})` : ' without a transaction hash'}`
+      );
+    } catch (error) {
+      elizaLogger.error(
+        `[AttestationService] Failed to submit transaction:`,
+        error
+      );
+      txError = error instanceof Error ? error.message : String(error);
+    }
+
+    // Record the attempt either way, so the ledger shows failed submissions too.
+    // Without an error or a hash the action may still have sent it; we can't tell.
+    const txStatus: TransactionStatus = txHash
+      ? 'pending'
+      : txError
+        ? 'failed'
+        : 'unconfirmed';
+    const records = prepared.map((p, i) => ({
+      ...this.buildRecord(p, cycleId),
+      txHash,
+      txStatus,
+      txError,
+      batchIndex: batched ? i : null,
+      // The worst case until the receipt says what it cost
+      gasCost: gasCost?.toString() ?? null,
+    }));
+    const recorded: (AttestationRecord | null)[] = [];
+    for (const record of records) {
+      recorded.push(await this.recordAttestation(this.ledger, record));
+    }
+
+    if (txStatus === 'unconfirmed') {
+      elizaLogger.warn(
+        `[AttestationService] Attestation for ${markets} was handed to the submit action without a transaction hash; its outcome can't be tracked`
+      );
+      return records;
+    }
+    if (!txHash) {
+      elizaLogger.error(
+        `[AttestationService] Attestation for ${markets} was not submitted: ${txError}`
+      );
+      return records;
+    }
+
+    // Wait for the receipt outside the submission lock so other markets keep going
+    const outcome = await this.getTransactionTracker().track(txHash);
+    if (outcome.gasCost != null) {
+      this.spendingGuard.settle(txHash, outcome.gasCost);
+    }
+    for (const [i, record] of records.entries()) {
+      const changes = recordOutcome(outcome, record.batchIndex);
+      Object.assign(record, changes);
+      const id = recorded[i]?.id;
+      if (id) {
+        await this.updateAttestation(id, changes);
+      }
+    }
+
+    if (outcome.txStatus === 'reverted') {
+      elizaLogger.error(
+        `[AttestationService] Attestation for ${markets} reverted (tx: ${txHash})`
+      );
+      return records;
+    }
+    if (outcome.txStatus === 'pending') {
+      elizaLogger.warn(
+        `[AttestationService] Attestation for ${markets} still pending (tx: ${txHash}); will check again next cycle`
+      );
+      return records;
+    }
+
+    for (const { market, prediction } of prepared) {
       elizaLogger.info(
         `[AttestationService] Market ${market.id} attested: ${prediction.probability}% YES (confidence: ${prediction.confidence})`
       );
@@ -808,58 +1375,439 @@ export class AttestationService {
       // Concise attestation summary (max 180 chars)
       const attestationSummary = `market #${market.id}: ${prediction.probability}% yes. ${prediction.reasoning.substring(0, 100)}${prediction.reasoning.length > 100 ? '...' : ''}`;
       console.log(`attested: ${attestationSummary}`);
+    }
+    return records;
+  }
+
+  // One multiAttest call for all prepared attestations, verified by decoding it back
+  private buildMultiAttestation(
+    prepared: PreparedAttestation[]
+  ): AttestationCalldata {
+    const chain = getAttestationChain(this.runtime);
+    const calldata = buildMultiAttestationCalldata(
+      prepared.map(({ market, prediction }) => ({
+        market: {
+          marketId: parseInt(market.marketId),
+          address: market.marketAddress,
+          question: market.question,
+        },
+        prediction,
+      })),
+      chain
+    );
+    if (!calldata) {
+      throw new Error(
+        '[AttestationService] Failed to build multiAttest transaction'
+      );
+    }
+
+    const decoded = decodeMultiAttestationCalldata(
+      calldata.data as Hex,
+      chain.schemaId
+    );
+    const mismatch = prepared.findIndex(
+      ({ market }, i) =>
+        decoded[i]?.marketId !== market.marketId ||
+        decoded[i].marketAddress.toLowerCase() !==
+          market.marketAddress.toLowerCase()
+    );
+    if (decoded.length !== prepared.length || mismatch !== -1) {
+      throw new Error(
+        `[AttestationService] Built multiAttest transaction does not match market ${prepared[mismatch]?.market.id ?? 'count'}`
+      );
+    }
+    return calldata;
+  }
+
+  // Ledger entry for a prepared attestation, before anything is submitted
+  private buildRecord(
+    { market, prediction, calldata }: PreparedAttestation,
+    cycleId: string | null
+  ): NewAttestationRecord {
+    return {
+      marketId: market.marketId,
+      marketAddress: market.marketAddress,
+      probability: prediction.probability,
+      confidence: prediction.confidence,
+      reasoning: prediction.reasoning,
+      calldata: calldata.data,
+      txHash: null,
+      txStatus: null,
+      txError: null,
+      attestationUid: null,
+      blockNumber: null,
+      batchIndex: null,
+      gasCost: null,
+      cycleId,
+      promptVersion: prediction.promptVersion,
+      sources: prediction.sources,
+      adjustment: prediction.adjustment,
+    };
+  }
+
+  /**
+   * Send a transaction from the agent's wallet. Uses the built-in signer
+   * (see resolvePrivateKey) and falls back to the SUBMIT_TRANSACTION action only
+   * when there is no signer, unless `wallet.actionFallback` is false.
+   * Submissions go out one at a time.
+   */
+  async submitTransaction(
+    tx: TransactionRequest,
+    attestations: number = 1
+  ): Promise<SubmittedTransaction> {
+    this.assertConfigured();
+    return this.submissionLock.run(async () => {
+      // Checked inside the lock so parallel markets can't overshoot a limit
+      // together, and with this transaction's worst-case gas counted
+      const signer = this.getWalletSigner();
+      const estimatedCost = signer ? await signer.estimateCost(tx) : 0n;
+      const violation = await this.checkGuardrails(attestations, estimatedCost);
+      if (violation) {
+        throw new Error(
+          `[AttestationService] Paused by guardrail: ${violation.reason}`
+        );
+      }
+
+      if (signer) {
+        const sent = await signer.send(tx);
+        const gasCost = sent.gas * sent.maxFeePerGas;
+        this.spendingGuard.record(sent.txHash, attestations, gasCost);
+        return { txHash: sent.txHash, submitter: 'signer', gasCost };
+      }
+
+      if (getWalletSettings(this.runtime).actionFallback === false) {
+        throw new Error(
+          '[AttestationService] No wallet signer configured (set EVM_PRIVATE_KEY) and the action fallback is disabled'
+        );
+      }
+      // The action doesn't report gas, so only the attestation counts apply
+      const txHash = await this.submitViaAction(tx);
+      this.spendingGuard.record(txHash, attestations);
+      return { txHash, submitter: 'action', gasCost: null };
+    });
+  }
+
+  /**
+   * Check the guardrails before submitting `attestations` more. A violation
+   * pauses the loop (cycles are skipped) until a later check passes again,
+   * e.g. once the hourly window has moved on or the wallet is topped up.
+   */
+  private async checkGuardrails(
+    attestations: number,
+    gasCost: bigint = 0n
+  ): Promise<GuardrailViolation | null> {
+    let balance: bigint | null = null;
+    const signer = this.spendingGuard.checksBalance
+      ? this.getWalletSigner()
+      : null;
+    if (signer) {
+      try {
+        balance = await signer.getBalance();
+      } catch (error) {
+        elizaLogger.warn(
+          '[AttestationService] Could not read wallet balance for guardrails:',
+          error
+        );
+      }
+    }
+
+    const violation = this.spendingGuard.check(
+      attestations,
+      balance,
+      Date.now(),
+      gasCost
+    );
+    if (violation) {
+      if (this.guardrailPause?.limit !== violation.limit) {
+        elizaLogger.warn(
+          `[AttestationService] Pausing submissions: ${violation.reason}`
+        );
+      }
+      this.guardrailPause = {
+        ...violation,
+        since:
+          this.guardrailPause?.limit === violation.limit
+            ? this.guardrailPause.since
+            : Date.now(),
+      };
+    } else if (this.guardrailPause) {
+      elizaLogger.info(
+        `[AttestationService] Guardrail ${this.guardrailPause.limit} cleared - resuming submissions`
+      );
+      this.guardrailPause = null;
+    }
+    return violation;
+  }
+
+  // Count what was submitted in the last day before a restart against the limits.
+  // The records of a multiAttest transaction share its hash and gas cost, which
+  // is the worst case while still pending. Action submissions that reported no
+  // hash count too, one attestation each.
+  private async seedSpendingGuard(): Promise<void> {
+    try {
+      const since = Date.now() - 24 * 60 * 60 * 1000;
+      const submissions = new Map<
+        string,
+        {
+          txHash: string | null;
+          attestations: number;
+          gasCost: bigint;
+          timestamp: number;
+        }
+      >();
+      for (const record of await this.ledger.list()) {
+        if (record.timestamp < since) continue;
+        const key =
+          record.txHash ??
+          (record.txStatus === 'unconfirmed' ? record.id : undefined);
+        if (!key) continue;
+        const submission = submissions.get(key) ?? {
+          txHash: record.txHash,
+          attestations: 0,
+          gasCost: BigInt(record.gasCost ?? 0),
+          timestamp: record.timestamp,
+        };
+        submission.attestations++;
+        submissions.set(key, submission);
+      }
+      for (const submission of submissions.values()) {
+        this.spendingGuard.record(
+          submission.txHash,
+          submission.attestations,
+          submission.gasCost,
+          submission.timestamp
+        );
+      }
     } catch (error) {
-      const marketId = market.marketId || market.id;
       elizaLogger.error(
-        `[AttestationService] Failed to process market ${market.id} (marketId: ${marketId}):`,
+        '[AttestationService] Failed to read recent submissions from the ledger:',
         error
       );
     }
   }
 
-  getStatus(): {
-    isRunning: boolean;
-    enabled: boolean;
-    interval: number;
-    minConfidence: number;
-    batchSize: number;
-    attestationCount: number;
-    lastCycle: number | null;
-  } {
+  private getWalletSigner(): WalletSigner | null {
+    if (this.walletSigner === undefined) {
+      this.walletSigner = createWalletSigner(
+        getAttestationChain(this.runtime),
+        getWalletSettings(this.runtime)
+      );
+    }
+    return this.walletSigner;
+  }
+
+  // Hand the transaction to the SUBMIT_TRANSACTION action from plugin-sapience
+  private async submitViaAction(
+    tx: TransactionRequest
+  ): Promise<string | null> {
+    const submitAction = (this.runtime.actions || []).find(
+      a => a.name === 'SUBMIT_TRANSACTION'
+    );
+    if (!submitAction) {
+      throw new Error(
+        '[AttestationService] No wallet signer configured and SUBMIT_TRANSACTION action not available'
+      );
+    }
+
+    const transactionMessage: Memory = {
+      entityId: '00000000-0000-0000-0000-000000000000' as any,
+      agentId: this.runtime.agentId,
+      roomId: '00000000-0000-0000-0000-000000000000' as any,
+      content: {
+        text: `Submit this transaction: ${JSON.stringify(tx)}`,
+        action: 'SUBMIT_TRANSACTION',
+      },
+      createdAt: Date.now(),
+    };
+
+    // Capture whatever the action reports so we can pick out the tx hash
+    const responses: unknown[] = [];
+    const txResult = await submitAction.handler(
+      this.runtime,
+      transactionMessage,
+      undefined,
+      {},
+      async response => {
+        responses.push(response);
+        return [];
+      }
+    );
+    return extractTxHash(txResult, ...responses);
+  }
+
+  private async recordAttestation(
+    ledger: AttestationLedger,
+    record: NewAttestationRecord
+  ): Promise<AttestationRecord | null> {
+    try {
+      return await ledger.record(record);
+    } catch (error) {
+      elizaLogger.error(
+        `[AttestationService] Failed to record attestation for market ${record.marketId} in ledger:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  private async updateAttestation(
+    id: NonNullable<AttestationRecord['id']>,
+    changes: Partial<AttestationRecord>
+  ): Promise<void> {
+    try {
+      await this.ledger.update(id, changes);
+    } catch (error) {
+      elizaLogger.error(
+        `[AttestationService] Failed to update ledger entry ${id}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Look up receipts for ledger entries still marked pending, e.g. after a
+   * receipt timeout or a restart, and record how they turned out.
+   */
+  private async reconcilePendingTransactions(): Promise<void> {
+    try {
+      const pending = await this.ledger.pending();
+      if (pending.length === 0) {
+        return;
+      }
+
+      const tracker = this.getTransactionTracker();
+      for (const record of pending) {
+        if (!record.id || !record.txHash) continue;
+        const outcome = await tracker.check(record.txHash, record.timestamp);
+        if (outcome.txStatus === 'pending') continue;
+        if (outcome.gasCost != null) {
+          this.spendingGuard.settle(record.txHash, outcome.gasCost);
+        }
+
+        await this.updateAttestation(
+          record.id,
+          recordOutcome(outcome, record.batchIndex)
+        );
+        elizaLogger.info(
+          `[AttestationService] Pending attestation for market ${record.marketId} ${outcome.txStatus} (tx: ${record.txHash})`
+        );
+      }
+    } catch (error) {
+      elizaLogger.error(
+        '[AttestationService] Failed to reconcile pending transactions:',
+        error
+      );
+    }
+  }
+
+  async getStatus(): Promise<AttestationStatus> {
+    let attestationCount = 0;
+    let paperAttestationCount = 0;
+    let lastCycle: number | null = null;
+    let chainId: number | null = null;
+    try {
+      chainId = getAttestationChain(this.runtime).chainId;
+    } catch (error) {
+      elizaLogger.error('[AttestationService] Invalid chain config:', error);
+    }
+    try {
+      attestationCount = await this.ledger.count();
+      paperAttestationCount = await this.paperLedger.count();
+      lastCycle =
+        (
+          await (
+            this.attestationConfig.dryRun ? this.paperLedger : this.ledger
+          ).latest()
+        )?.timestamp ?? null;
+    } catch (error) {
+      elizaLogger.error(
+        '[AttestationService] Failed to read attestation ledger:',
+        error
+      );
+    }
+
     return {
       isRunning: this.isRunning,
-      enabled: this.config.enabled,
-      interval: this.config.interval,
-      minConfidence: this.config.minConfidence,
-      batchSize: this.config.batchSize,
-      attestationCount: this.attestationHistory.size,
-      lastCycle:
-        this.attestationHistory.size > 0
-          ? Math.max(
-              ...Array.from(this.attestationHistory.values()).map(attestation =>
-                attestation.timestamp.getTime()
-              )
-            )
-          : null,
+      enabled: this.attestationConfig.enabled,
+      interval: this.attestationConfig.interval,
+      minConfidence: this.attestationConfig.minConfidence,
+      batchSize: this.attestationConfig.batchSize,
+      concurrency: this.attestationConfig.concurrency,
+      multiAttestChunkSize: this.multiAttestChunkSize(),
+      dryRun: this.attestationConfig.dryRun,
+      chainId,
+      attestationCount,
+      paperAttestationCount,
+      lastCycle,
+      lastCycleUsage: this.lastCycleUsage,
+      cycleInProgress: this.cycleInProgress,
+      skippedCycles: this.skippedCycles,
+      overrunCycles: this.overrunCycles,
+      pausedBy: this.guardrailPause,
+      spending: this.spendingGuard.usage(),
+      wallet: this.walletHealth,
+      ...this.resolutionTracker.getAccuracy(),
     };
   }
 
-  getHistory(limit: number = 10): Array<{
-    marketId: string;
-    timestamp: string;
-    probability: number;
-    confidence: number;
-  }> {
-    const entries = Array.from(this.attestationHistory.entries())
-      .sort((a, b) => b[1].timestamp.getTime() - a[1].timestamp.getTime())
-      .slice(0, limit)
-      .map(([marketId, attestation]) => ({
-        marketId,
-        timestamp: attestation.timestamp.toISOString(),
-        probability: attestation.probability,
-        confidence: attestation.confidence,
+  getEligibleMarkets(): EligibleMarkets {
+    return { cycleId: this.currentCycleId, markets: this.eligibleMarkets };
+  }
+
+  async getHistory(
+    limit: number = 10,
+    options: { paper?: boolean } = {}
+  ): Promise<AttestationHistoryEntry[]> {
+    try {
+      const ledger = options.paper ? this.paperLedger : this.ledger;
+      const records = await ledger.list(limit);
+      return records.map(({ id, timestamp, ...record }) => ({
+        ...record,
+        timestamp: new Date(timestamp).toISOString(),
       }));
+    } catch (error) {
+      elizaLogger.error(
+        '[AttestationService] Failed to read attestation ledger:',
+        error
+      );
+      return [];
+    }
+  }
+}
 
-    return entries;
+/**
+ * Ledger fields for one attestation from its transaction's outcome. A
+ * multiAttest transaction emits one UID per attestation, in order.
+ */
+function recordOutcome(
+  outcome: TransactionOutcome,
+  batchIndex: number | null
+): Partial<AttestationRecord> {
+  const changes: Partial<AttestationRecord> = {
+    txStatus: outcome.txStatus,
+    txError: outcome.txError,
+    blockNumber: outcome.blockNumber,
+    attestationUid: outcome.attestationUids[batchIndex ?? 0] ?? null,
+  };
+  // Without a receipt the worst case recorded at submission stands
+  if (outcome.gasCost != null) {
+    changes.gasCost = outcome.gasCost.toString();
+  }
+  return changes;
+}
+
+/**
+ * Pull a transaction hash out of whatever a submit action returned or
+ * reported through its callback.
+ */
+function extractTxHash(...sources: unknown[]): string | null {
+  for (const source of sources) {
+    if (!source) continue;
+    const text = typeof source === 'string' ? source : JSON.stringify(source);
+    const match = text?.match(/0x[a-fA-F0-9]{64}/);
+    if (match) {
+      return match[0];
+    }
   }
+  return null;
 }
@@ -0,0 +1,177 @@
+import { elizaLogger, IAgentRuntime } from '@elizaos/core';
+import {
+  generateStructuredPrediction,
+  Prediction,
+  PREDICTION_MODELS,
+  PredictionModel,
+} from './predictionGenerator.js';
+import {
+  AGGREGATION_METHODS,
+  aggregateProbabilities,
+  AggregationMethod,
+  dispersionConfidence,
+} from '../utils/aggregation.js';
+import { ModelUsageTracker } from './modelUsage.js';
+
+/**
+ * `settings.ensemble` in the character file. With more than one sample the
+ * prediction is pooled from several model calls instead of a single one.
+ */
+export interface EnsembleSettings {
+  samples?: number;
+  models?: PredictionModel[]; // samples are spread round-robin across these
+  aggregation?: AggregationMethod;
+  trimFraction?: number; // for trimmed-mean
+}
+
+export interface ResolvedEnsembleSettings {
+  samples: number;
+  models: PredictionModel[];
+  aggregation: AggregationMethod;
+  trimFraction?: number;
+}
+
+export interface EnsembleSample {
+  model: PredictionModel;
+  probability: number;
+  confidence: number; // as reported by the model; not used for the result
+}
+
+export interface EnsembleSummary {
+  method: AggregationMethod;
+  samples: EnsembleSample[];
+  failedSamples: number;
+}
+
+export interface EnsemblePrediction extends Prediction {
+  ensemble: EnsembleSummary;
+}
+
+export function resolveEnsembleSettings(
+  settings: EnsembleSettings = {}
+): ResolvedEnsembleSettings {
+  const samples = settings.samples ?? 1;
+  if (!Number.isInteger(samples) || samples < 1) {
+    throw new Error(
+      `[EnsemblePredictor] ensemble.samples must be a positive integer, got ${samples}`
+    );
+  }
+
+  const models = settings.models?.length ? settings.models : ['OBJECT_SMALL'];
+  const unknownModel = models.find(
+    model => !PREDICTION_MODELS.includes(model as PredictionModel)
+  );
+  if (unknownModel) {
+    throw new Error(
+      `[EnsemblePredictor] Unknown ensemble model "${unknownModel}" (expected ${PREDICTION_MODELS.join(', ')})`
+    );
+  }
+
+  const aggregation = settings.aggregation ?? 'median';
+  if (!AGGREGATION_METHODS.includes(aggregation)) {
+    throw new Error(
+      `[EnsemblePredictor] Unknown aggregation method "${aggregation}" (expected ${AGGREGATION_METHODS.join(', ')})`
+    );
+  }
+
+  const { trimFraction } = settings;
+  if (
+    trimFraction !== undefined &&
+    (typeof trimFraction !== 'number' || !Number.isFinite(trimFraction))
+  ) {
+    throw new Error(
+      `[EnsemblePredictor] ensemble.trimFraction must be a number in [0, 0.5), got ${trimFraction}`
+    );
+  }
+  if (trimFraction !== undefined && (trimFraction < 0 || trimFraction >= 0.5)) {
+    elizaLogger.warn(
+      `[EnsemblePredictor] ensemble.trimFraction ${trimFraction} is outside [0, 0.5); clamping it`
+    );
+  }
+
+  return {
+    samples,
+    models: models as PredictionModel[],
+    aggregation,
+    trimFraction: settings.trimFraction,
+  };
+}
+
+/**
+ * Draw `samples` predictions for the same prompt and pool them. The
+ * probability is the aggregate, confidence comes from how much the samples
+ * agree (or, when only one sample succeeded, from that sample itself), and
+ * the reasoning is taken from the sample closest to the aggregate.
+ * Samples that fail validation are dropped; the ensemble only fails when none
+ * succeed.
+ */
+export async function generateEnsemblePrediction(
+  runtime: IAgentRuntime,
+  prompt: string,
+  settings: ResolvedEnsembleSettings,
+  usage?: ModelUsageTracker
+): Promise<EnsemblePrediction> {
+  const models = Array.from(
+    { length: settings.samples },
+    (_, i) => settings.models[i % settings.models.length]
+  );
+
+  const results = await Promise.allSettled(
+    models.map(model =>
+      generateStructuredPrediction(runtime, prompt, { model, usage })
+    )
+  );
+
+  const predictions: (Prediction & { model: PredictionModel })[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      predictions.push({ ...result.value, model: models[i] });
+    } else {
+      elizaLogger.warn(
+        `[EnsemblePredictor] Dropping ${models[i]} sample ${i + 1}/${models.length}:`,
+        result.reason
+      );
+    }
+  });
+
+  if (predictions.length === 0) {
+    throw new Error(
+      `[EnsemblePredictor] All ${models.length} ensemble samples failed`
+    );
+  }
+
+  const probabilities = predictions.map(p => p.probability);
+  const probability = aggregateProbabilities(
+    probabilities,
+    settings.aggregation,
+    { trimFraction: settings.trimFraction }
+  );
+  const representative = predictions.reduce((closest, p) =>
+    Math.abs(p.probability - probability) <
+    Math.abs(closest.probability - probability)
+      ? p
+      : closest
+  );
+
+  // A lone sample has no agreement to measure, so it keeps its own confidence
+  const confidence =
+    predictions.length === 1
+      ? predictions[0].confidence
+      : dispersionConfidence(probabilities);
+
+  // Pooled values are rounded so logs and replies don't show float noise
+  return {
+    probability: Math.round(probability * 10) / 10,
+    reasoning: representative.reasoning,
+    confidence: Math.round(confidence * 100) / 100,
+    ensemble: {
+      method: settings.aggregation,
+      samples: predictions.map(({ model, probability, confidence }) => ({
+        model,
+        probability,
+        confidence,
+      })),
+      failedSamples: models.length - predictions.length,
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { Market } from './sapienceClient.js';
+
+/**
+ * What the scheduler knows about a candidate beyond the market itself:
+ * when we last attested to it and our latest estimate of its probability
+ * (the fresh prediction made while filtering, or the last attested value).
+ */
+export interface SchedulingHints {
+  lastAttestedAt: number | null;
+  estimatedProbability: number | null;
+}
+
+export interface PriorityWeights {
+  timeToClose: number;
+  volume: number;
+  staleness: number;
+  disagreement: number;
+}
+
+export interface SchedulerSettings {
+  weights: PriorityWeights;
+  agingRate: number; // priority added per cycle a market is eligible but not picked
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  weights: {
+    timeToClose: 1,
+    volume: 1,
+    staleness: 1,
+    disagreement: 1,
+  },
+  agingRate: 0.1,
+};
+
+// `autonomousMode.scheduler` in the character file; unset fields use the defaults
+export interface SchedulerOptions {
+  weights?: Partial<PriorityWeights>;
+  agingRate?: number;
+}
+
+export interface MarketPriority {
+  score: number; // weighted factor average, 0-1
+  skippedCycles: number;
+  priority: number; // score plus aging
+}
+
+// Markets closing (or last attested) further out than this rank the same
+const HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+// Without an estimate, assume a middling disagreement with the market
+const UNKNOWN_DISAGREEMENT = 0.5;
+const NO_HINTS: SchedulingHints = {
+  lastAttestedAt: null,
+  estimatedProbability: null,
+};
+
+/**
+ * Score a market from 0 to 1 on how much attesting to it now is worth:
+ * closing soon, trading heavily, not attested recently, and likely to differ
+ * from the market price. `maxVolume` is the largest volume among the
+ * candidates being compared, so volume is scored relatively on a log scale.
+ */
+export function scoreMarket(
+  market: Pick<Market, 'currentPrice' | 'volume' | 'endTimestamp'>,
+  hints: SchedulingHints,
+  maxVolume: number,
+  weights: PriorityWeights,
+  now: number = Date.now()
+): number {
+  const timeToClose =
+    market.endTimestamp === null
+      ? 0
+      : Math.min(
+          1,
+          Math.max(0, 1 - (market.endTimestamp * 1000 - now) / HORIZON_MS)
+        );
+  const volume =
+    maxVolume > 0 ? Math.log1p(market.volume ?? 0) / Math.log1p(maxVolume) : 0;
+  const staleness =
+    hints.lastAttestedAt === null
+      ? 1
+      : Math.min(1, Math.max(0, (now - hints.lastAttestedAt) / HORIZON_MS));
+  const disagreement =
+    hints.estimatedProbability === null || market.currentPrice === null
+      ? UNKNOWN_DISAGREEMENT
+      : Math.min(
+          1,
+          Math.abs(hints.estimatedProbability - market.currentPrice) / 50
+        );
+
+  const totalWeight =
+    weights.timeToClose +
+    weights.volume +
+    weights.staleness +
+    weights.disagreement;
+  if (totalWeight <= 0) {
+    return 0;
+  }
+  return (
+    (weights.timeToClose * timeToClose +
+      weights.volume * volume +
+      weights.staleness * staleness +
+      weights.disagreement * disagreement) /
+    totalWeight
+  );
+}
+
+/**
+ * Picks which eligible markets to attest to each cycle. Markets are ranked by
+ * `scoreMarket`, and every cycle a market is eligible but left out of the
+ * batch raises its priority by `agingRate`, so low-scoring markets are
+ * eventually processed instead of starving behind a steady stream of
+ * higher-scoring ones.
+ */
+export class MarketScheduler {
+  private readonly settings: SchedulerSettings;
+  // Cycles each eligible market has been passed over, keyed by market
+  private skippedCycles = new Map<string, number>();
+
+  constructor(options: SchedulerOptions = {}) {
+    this.settings = {
+      weights: { ...DEFAULT_SCHEDULER_SETTINGS.weights, ...options.weights },
+      agingRate: options.agingRate ?? DEFAULT_SCHEDULER_SETTINGS.agingRate,
+    };
+  }
+
+  private static key(market: Pick<Market, 'marketAddress' | 'marketId'>) {
+    return `${market.marketAddress.toLowerCase()}:${market.marketId}`;
+  }
+
+  /**
+   * Rank all candidates, highest priority first, and record the first
+   * `batchSize` as picked. Returns the full ranking so callers can show
+   * what is queued behind the batch. Candidates without hints are scored as
+   * never attested with no estimate.
+   */
+  schedule<T extends Market & { _scheduling?: SchedulingHints }>(
+    candidates: T[],
+    batchSize: number,
+    now: number = Date.now()
+  ): (T & { _priority: MarketPriority })[] {
+    const maxVolume = Math.max(0, ...candidates.map(m => m.volume ?? 0));
+
+    const ranked = candidates
+      .map(market => {
+        const score = scoreMarket(
+          market,
+          market._scheduling ?? NO_HINTS,
+          maxVolume,
+          this.settings.weights,
+          now
+        );
+        const skippedCycles =
+          this.skippedCycles.get(MarketScheduler.key(market)) ?? 0;
+        return {
+          ...market,
+          _priority: {
+            score,
+            skippedCycles,
+            priority: score + this.settings.agingRate * skippedCycles,
+          },
+        };
+      })
+      .sort((a, b) => b._priority.priority - a._priority.priority);
+
+    // Markets that are no longer eligible drop out of the aging table
+    const skipped = new Map<string, number>();
+    ranked.slice(batchSize).forEach(market => {
+      skipped.set(
+        MarketScheduler.key(market),
+        market._priority.skippedCycles + 1
+      );
+    });
+    this.skippedCycles = skipped;
+
+    return ranked;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Model usage counted around prediction calls. ElizaOS doesn't hand token
+ * counts back from `useModel`, so tokens are estimated from the prompt and
+ * response text (about four characters per token).
+ */
+
+export interface ModelUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number; // in the currency of the configured token pricing
+}
+
+// Price per 1000 tokens; zero unless configured
+export interface TokenPricing {
+  promptPer1k: number;
+  completionPer1k: number;
+}
+
+export const DEFAULT_TOKEN_PRICING: TokenPricing = {
+  promptPer1k: 0,
+  completionPer1k: 0,
+};
+
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export class ModelUsageTracker {
+  private calls = 0;
+  private promptTokens = 0;
+  private completionTokens = 0;
+
+  record(prompt: string, output: unknown): void {
+    this.calls++;
+    this.promptTokens += estimateTokens(prompt);
+    this.completionTokens += estimateTokens(
+      typeof output === 'string' ? output : (JSON.stringify(output) ?? '')
+    );
+  }
+
+  reset(): void {
+    this.calls = 0;
+    this.promptTokens = 0;
+    this.completionTokens = 0;
+  }
+
+  snapshot(pricing: TokenPricing = DEFAULT_TOKEN_PRICING): ModelUsage {
+    return {
+      calls: this.calls,
+      promptTokens: this.promptTokens,
+      completionTokens: this.completionTokens,
+      totalTokens: this.promptTokens + this.completionTokens,
+      estimatedCost:
+        (this.promptTokens / 1000) * pricing.promptPer1k +
+        (this.completionTokens / 1000) * pricing.completionPer1k,
+    };
+  }
+}
@@ -0,0 +1,204 @@
+import { Character, elizaLogger, IAgentRuntime } from '@elizaos/core';
+import { Market } from './sapienceClient.js';
+import {
+  generateStructuredPrediction,
+  Prediction,
+} from './predictionGenerator.js';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  PromptTemplate,
+  PromptVariables,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+} from './promptTemplates.js';
+import {
+  createResearchProvider,
+  DEFAULT_MAX_SNIPPETS,
+  formatResearch,
+  ResearchProvider,
+  ResearchSettings,
+  ResearchSnippet,
+  ResearchSource,
+  toResearchSources,
+} from './researchProvider.js';
+import {
+  EnsembleSettings,
+  EnsembleSummary,
+  generateEnsemblePrediction,
+  ResolvedEnsembleSettings,
+  resolveEnsembleSettings,
+} from './ensemblePredictor.js';
+import { ModelUsageTracker } from './modelUsage.js';
+
+export type PredictionInput = Pick<
+  Market,
+  'question' | 'currentPrice' | 'volume' | 'endTimestamp'
+>;
+
+export interface PredictionResult extends Prediction {
+  promptVersion: string;
+  sources: ResearchSource[]; // research snippets included in the prompt
+  ensemble: EnsembleSummary | null; // samples behind the forecast in ensemble mode
+}
+
+const NO_RECENT_NEWS = 'No recent news gathered.';
+
+/**
+ * Template variables for a market, with the voice taken from the character's
+ * own `system` prompt and its `all`/`post` style rules so every entry point
+ * writes the attestation comment the same way.
+ */
+export function buildPromptVariables(
+  character: Character,
+  market: PredictionInput,
+  recentNews: string = NO_RECENT_NEWS
+): PromptVariables {
+  const styleRules = [
+    ...(character.style?.all ?? []),
+    ...(character.style?.post ?? []),
+  ];
+
+  return {
+    system:
+      character.system ??
+      `You are ${character.name}, a prediction market analyst.`,
+    style:
+      styleRules.length > 0
+        ? `Style:\n${styleRules.map(rule => `- ${rule}`).join('\n')}`
+        : '',
+    question: market.question,
+    currentPrice: String(market.currentPrice ?? 50),
+    volume: String(market.volume ?? 0),
+    endDate: market.endTimestamp
+      ? new Date(market.endTimestamp * 1000).toISOString()
+      : 'unknown',
+    recentNews,
+  };
+}
+
+export function buildPredictionPrompt(
+  character: Character,
+  market: PredictionInput,
+  template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE,
+  research: ResearchSnippet[] = []
+): string {
+  return renderPromptTemplate(
+    template.template,
+    buildPromptVariables(
+      character,
+      market,
+      research.length > 0 ? formatResearch(research) : undefined
+    )
+  );
+}
+
+/**
+ * The single prediction pipeline shared by ATTEST_MARKET and the autonomous
+ * loop: research and templated prompt in, validated prediction (tagged with
+ * the template version and cited sources) out. Configured with more than one
+ * sample it pools an ensemble instead of trusting a single model call.
+ */
+export class PredictionEngine {
+  private template?: PromptTemplate;
+  private research?: ResearchProvider | null;
+  private ensemble?: ResolvedEnsembleSettings;
+  // Model calls made by predict() without a tracker of their own; the
+  // attestation service resets it per cycle
+  readonly usage = new ModelUsageTracker();
+
+  constructor(private readonly runtime: IAgentRuntime) {}
+
+  /**
+   * Resolve the prompt template, ensemble and research provider from the
+   * character now, so bad configuration fails at startup instead of on
+   * every prediction. Throws on invalid settings.
+   */
+  initialize(): void {
+    this.getTemplate();
+    this.getEnsembleSettings();
+    // Built once: invalid settings leave research off rather than failing again later
+    this.research = null;
+    this.research = createResearchProvider(this.researchSettings());
+    if (this.research) {
+      elizaLogger.info(
+        `[PredictionEngine] Research from ${this.research.name} provider`
+      );
+    }
+  }
+
+  getTemplate(): PromptTemplate {
+    this.template ??= resolvePromptTemplate(this.runtime.character);
+    return this.template;
+  }
+
+  getEnsembleSettings(): ResolvedEnsembleSettings {
+    this.ensemble ??= resolveEnsembleSettings(
+      this.runtime.character.settings?.ensemble as EnsembleSettings | undefined
+    );
+    return this.ensemble;
+  }
+
+  async predict(
+    market: PredictionInput,
+    usage: ModelUsageTracker = this.usage
+  ): Promise<PredictionResult> {
+    const template = this.getTemplate();
+    const research = await this.gatherResearch(market.question);
+    const prompt = buildPredictionPrompt(
+      this.runtime.character,
+      market,
+      template,
+      research
+    );
+    const ensemble = this.getEnsembleSettings();
+    const prediction =
+      ensemble.samples > 1
+        ? await generateEnsemblePrediction(
+            this.runtime,
+            prompt,
+            ensemble,
+            usage
+          )
+        : {
+            ...(await generateStructuredPrediction(this.runtime, prompt, {
+              model: ensemble.models[0],
+              usage,
+            })),
+            ensemble: null,
+          };
+    return {
+      ...prediction,
+      promptVersion: template.version,
+      sources: toResearchSources(research),
+    };
+  }
+
+  private researchSettings(): ResearchSettings {
+    return (this.runtime.character.settings?.research ??
+      {}) as ResearchSettings;
+  }
+
+  // A failing backend shouldn't block predictions; they go ahead without news
+  private async gatherResearch(question: string): Promise<ResearchSnippet[]> {
+    if (this.research === undefined) {
+      // Not initialized (e.g. used on its own); build it on first use instead
+      this.initialize();
+    }
+    if (!this.research) {
+      return [];
+    }
+
+    try {
+      return await this.research.gather(
+        question,
+        this.researchSettings().maxSnippets ?? DEFAULT_MAX_SNIPPETS
+      );
+    } catch (error) {
+      elizaLogger.warn(
+        `[PredictionEngine] ${this.research.name} research failed, predicting without it:`,
+        error
+      );
+      return [];
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  elizaLogger,
+  IAgentRuntime,
+  JSONSchema,
+  ModelType,
+  parseJSONObjectFromText,
+} from '@elizaos/core';
+import { z } from 'zod';
+import { ModelUsageTracker } from './modelUsage.js';
+
+// Models sometimes quote numbers; accept numeric strings but nothing else
+function boundedNumber(min: number, max: number) {
+  return z.preprocess(
+    value =>
+      typeof value === 'string' && value.trim() !== '' ? Number(value) : value,
+    z.number().min(min).max(max)
+  );
+}
+
+/**
+ * A model's forecast for a market: probability of YES (0-100), a short
+ * rationale that goes on-chain as the attestation comment, and the model's
+ * confidence (0-1).
+ */
+export const predictionSchema = z.object({
+  probability: boundedNumber(0, 100),
+  reasoning: z.string().trim().min(1),
+  confidence: boundedNumber(0, 1),
+});
+
+export type Prediction = z.output<typeof predictionSchema>;
+
+// Same shape as predictionSchema, for providers that constrain object output
+const PREDICTION_JSON_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    probability: { type: 'number', minimum: 0, maximum: 100 },
+    reasoning: { type: 'string' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  required: ['probability', 'reasoning', 'confidence'],
+};
+
+/**
+ * Models a prediction can be sampled from. OBJECT_SMALL returns the object
+ * directly; the text models answer with JSON that is parsed out of the text.
+ */
+export type PredictionModel = 'OBJECT_SMALL' | 'TEXT_SMALL' | 'TEXT_LARGE';
+
+export const PREDICTION_MODELS: PredictionModel[] = [
+  'OBJECT_SMALL',
+  'TEXT_SMALL',
+  'TEXT_LARGE',
+];
+
+export interface PredictionGenerationOptions {
+  maxAttempts?: number; // first attempt plus repair retries
+  model?: PredictionModel;
+  usage?: ModelUsageTracker; // counts every model call, including repairs
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.join('.') || '<root>'}: ${issue.message}`)
+    .join('; ');
+}
+
+async function requestPrediction(
+  runtime: IAgentRuntime,
+  model: PredictionModel,
+  prompt: string
+): Promise<unknown> {
+  if (model === 'OBJECT_SMALL') {
+    return runtime.useModel(ModelType.OBJECT_SMALL, {
+      prompt,
+      schema: PREDICTION_JSON_SCHEMA,
+      output: 'object',
+    });
+  }
+
+  const text = await runtime.useModel(ModelType[model], { prompt });
+  // Unparseable text is passed on as-is so the repair prompt can quote it
+  return parseJSONObjectFromText(text) ?? extractJsonObject(text) ?? text;
+}
+
+// Text models like to wrap the object in prose; try the outermost braces
+function extractJsonObject(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(text.substring(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+function buildRepairPrompt(
+  prompt: string,
+  output: unknown,
+  issues: string
+): string {
+  return `${prompt}
+
+Your previous answer was not a valid prediction.
+Previous answer: ${JSON.stringify(output)?.substring(0, 500)}
+Problems: ${issues}
+
+Answer again with a single JSON object with exactly these fields:
+- "probability": number from 0 to 100
+- "reasoning": non-empty string
+- "confidence": number from 0.0 to 1.0`;
+}
+
+/**
+ * Ask the model for a prediction as a structured object and validate it,
+ * re-prompting with the validation problems when the output is malformed or
+ * out of bounds.
+ */
+export async function generateStructuredPrediction(
+  runtime: IAgentRuntime,
+  prompt: string,
+  options: PredictionGenerationOptions = {}
+): Promise<Prediction> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 2);
+  const model = options.model ?? 'OBJECT_SMALL';
+  let currentPrompt = prompt;
+  let issues = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const output = await requestPrediction(runtime, model, currentPrompt);
+    options.usage?.record(currentPrompt, output);
+
+    const parsed = predictionSchema.safeParse(output);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    issues = describeIssues(parsed.error);
+    elizaLogger.warn(
+      `[PredictionGenerator] Invalid ${model} prediction on attempt ${attempt}/${maxAttempts}: ${issues}`
+    );
+    currentPrompt = buildRepairPrompt(prompt, output, issues);
+  }
+
+  throw new Error(
+    `[PredictionGenerator] Model did not return a valid prediction after ${maxAttempts} attempts: ${issues}`
+  );
+}
@@ -0,0 +1,134 @@
+import { Character, elizaLogger } from '@elizaos/core';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+
+/**
+ * A versioned prediction prompt. The version is recorded with every
+ * attestation so accuracy can be compared between prompt revisions.
+ */
+export interface PromptTemplate {
+  version: string;
+  template: string;
+}
+
+/**
+ * `settings.predictionPrompt` in the character file. An inline `template`
+ * wins over `templatesDir`; without either the built-in template is used.
+ */
+export interface PromptTemplateSettings {
+  version?: string;
+  template?: string;
+  templatesDir?: string;
+}
+
+export interface PromptVariables {
+  system: string;
+  style: string;
+  question: string;
+  currentPrice: string;
+  volume: string;
+  endDate: string;
+  recentNews: string;
+}
+
+const TEMPLATE_EXTENSIONS = ['.md', '.txt'];
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  version: 'default-v1',
+  template: `{{system}}
+
+{{style}}
+
+Market Question: {{question}}
+Current Market Price: {{currentPrice}}% YES
+Volume: {{volume}}
+End Date: {{endDate}}
+
+Recent News:
+{{recentNews}}
+
+Estimate the probability that this market resolves YES. Your reasoning is published on-chain as the attestation comment, so write it in the style above in under 180 characters.
+
+Respond with a JSON object:
+{
+  "probability": <number from 0 to 100>,
+  "reasoning": "<under 180 characters>",
+  "confidence": <number from 0.0 to 1.0>
+}`,
+};
+
+/**
+ * Fill `{{name}}` placeholders. Unknown placeholders are left as-is so a
+ * typo in a template shows up in the prompt rather than silently vanishing.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: PromptVariables
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? variables[name as keyof PromptVariables] : match
+  );
+}
+
+/**
+ * Read templates from a directory: each `<version>.md` or `<version>.txt`
+ * file is one template. Returns the requested version, or the highest version
+ * by natural sort order when none is requested.
+ */
+export function loadTemplateFromDirectory(
+  directory: string,
+  version?: string
+): PromptTemplate {
+  const dir = resolve(directory);
+  if (!existsSync(dir)) {
+    throw new Error(`[PromptTemplates] Templates directory ${dir} not found`);
+  }
+
+  const files = readdirSync(dir)
+    .filter(file => TEMPLATE_EXTENSIONS.includes(extname(file)))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const file = version
+    ? files.find(f => basename(f, extname(f)) === version)
+    : files[files.length - 1];
+  if (!file) {
+    throw new Error(
+      `[PromptTemplates] No template ${version ? `"${version}" ` : ''}found in ${dir}`
+    );
+  }
+
+  return {
+    version: basename(file, extname(file)),
+    template: readFileSync(join(dir, file), 'utf8'),
+  };
+}
+
+/**
+ * Pick the prediction template for a character: inline template from
+ * `settings.predictionPrompt`, then its `templatesDir` (or
+ * PREDICTION_TEMPLATES_DIR), then the built-in default.
+ */
+export function resolvePromptTemplate(
+  character: Character,
+  env: Record<string, string | undefined> = process.env
+): PromptTemplate {
+  const settings = (character.settings?.predictionPrompt ??
+    {}) as PromptTemplateSettings;
+
+  if (settings.template) {
+    return {
+      version: settings.version ?? 'custom',
+      template: settings.template,
+    };
+  }
+
+  const templatesDir = settings.templatesDir ?? env.PREDICTION_TEMPLATES_DIR;
+  if (templatesDir) {
+    const template = loadTemplateFromDirectory(templatesDir, settings.version);
+    elizaLogger.info(
+      `[PromptTemplates] Using prediction template ${template.version} from ${templatesDir}`
+    );
+    return template;
+  }
+
+  return DEFAULT_PROMPT_TEMPLATE;
+}
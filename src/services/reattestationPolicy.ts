@@ -0,0 +1,141 @@
+import { Market } from './sapienceClient.js';
+
+const HOUR = 60 * 60 * 1000;
+
+// Tighter minimum interval once a market is within `within` ms of closing
+export interface ClosingInterval {
+  within: number;
+  minInterval: number;
+}
+
+export interface ReattestationRules {
+  minInterval: number; // ms after an attestation before the market is looked at again
+  maxStaleness: number | null; // ms after which we re-attest regardless of change
+  probabilityChangeThreshold: number; // points of change needed in between
+  closingIntervals: ClosingInterval[];
+}
+
+/**
+ * `autonomousMode.reattestation` in the character file. Top-level rules apply
+ * to every market; `categories` overrides them per market category (matched
+ * case-insensitively against the category slug or name).
+ */
+export interface ReattestationPolicySettings
+  extends Partial<ReattestationRules> {
+  categories?: Record<string, Partial<ReattestationRules>>;
+}
+
+export const DEFAULT_REATTESTATION_RULES: ReattestationRules = {
+  minInterval: 24 * HOUR,
+  maxStaleness: null,
+  probabilityChangeThreshold: 10,
+  closingIntervals: [],
+};
+
+export type ReattestationDecision =
+  // Too soon since the last attestation
+  | { action: 'skip'; reason: string }
+  // Stale enough to re-attest without checking for a change
+  | { action: 'reattest'; reason: string }
+  // Re-attest only if a fresh prediction moved by at least `threshold`
+  | { action: 'check'; threshold: number; elapsedHours: number };
+
+function formatHours(ms: number): string {
+  return `${(ms / HOUR).toFixed(1)}h`;
+}
+
+function validateRules(rules: ReattestationRules, scope: string): void {
+  const { minInterval, maxStaleness, probabilityChangeThreshold } = rules;
+  if (!(minInterval >= 0)) {
+    throw new Error(
+      `[ReattestationPolicy] ${scope}.minInterval must be a non-negative number of ms, got ${minInterval}`
+    );
+  }
+  if (maxStaleness !== null && !(maxStaleness >= minInterval)) {
+    throw new Error(
+      `[ReattestationPolicy] ${scope}.maxStaleness must be at least minInterval, got ${maxStaleness}`
+    );
+  }
+  if (!(probabilityChangeThreshold >= 0)) {
+    throw new Error(
+      `[ReattestationPolicy] ${scope}.probabilityChangeThreshold must be non-negative, got ${probabilityChangeThreshold}`
+    );
+  }
+  for (const tier of rules.closingIntervals) {
+    if (!(tier.within > 0 && tier.minInterval >= 0)) {
+      throw new Error(
+        `[ReattestationPolicy] ${scope}.closingIntervals entries need a positive within and non-negative minInterval`
+      );
+    }
+  }
+}
+
+/**
+ * Decides when a market we have already attested to is due again: never
+ * before the minimum interval (shortened as the market nears its end), always
+ * after the maximum staleness, and in between only if the prediction moved.
+ */
+export class ReattestationPolicy {
+  private readonly rules: ReattestationRules;
+  private readonly categories: Map<string, ReattestationRules>;
+
+  constructor(settings: ReattestationPolicySettings = {}) {
+    const { categories = {}, ...base } = settings;
+    this.rules = { ...DEFAULT_REATTESTATION_RULES, ...base };
+    validateRules(this.rules, 'reattestation');
+
+    this.categories = new Map(
+      Object.entries(categories).map(([category, overrides]) => {
+        const rules = { ...this.rules, ...overrides };
+        validateRules(rules, `reattestation.categories.${category}`);
+        return [category.toLowerCase(), rules];
+      })
+    );
+  }
+
+  rulesFor(market: Pick<Market, 'category'>): ReattestationRules {
+    return (
+      (market.category && this.categories.get(market.category.toLowerCase())) ||
+      this.rules
+    );
+  }
+
+  evaluate(
+    market: Pick<Market, 'category' | 'endTimestamp'>,
+    lastAttestedAt: number,
+    now: number = Date.now()
+  ): ReattestationDecision {
+    const rules = this.rulesFor(market);
+    const elapsed = now - lastAttestedAt;
+
+    if (rules.maxStaleness !== null && elapsed >= rules.maxStaleness) {
+      return {
+        action: 'reattest',
+        reason: `${formatHours(elapsed)} since last attestation exceeds max staleness of ${formatHours(rules.maxStaleness)}`,
+      };
+    }
+
+    let minInterval = rules.minInterval;
+    if (market.endTimestamp !== null) {
+      const timeToClose = market.endTimestamp * 1000 - now;
+      for (const tier of rules.closingIntervals) {
+        if (timeToClose <= tier.within) {
+          minInterval = Math.min(minInterval, tier.minInterval);
+        }
+      }
+    }
+
+    if (elapsed < minInterval) {
+      return {
+        action: 'skip',
+        reason: `Only ${formatHours(elapsed)} since last attestation (minimum ${formatHours(minInterval)})`,
+      };
+    }
+
+    return {
+      action: 'check',
+      threshold: rules.probabilityChangeThreshold,
+      elapsedHours: elapsed / HOUR,
+    };
+  }
+}
@@ -0,0 +1,342 @@
+import { elizaLogger } from '@elizaos/core';
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+
+export interface ResearchSnippet {
+  title: string;
+  snippet: string;
+  url: string | null;
+  source: string;
+  publishedAt: number | null;
+}
+
+// What gets recorded with an attestation for each snippet the prompt cited
+export interface ResearchSource {
+  title: string;
+  url: string | null;
+  source: string;
+}
+
+/**
+ * Gathers context for a market question. Backends only need to return
+ * snippets; ranking and prompt formatting happen in the prediction engine.
+ */
+export interface ResearchProvider {
+  readonly name: string;
+  gather(question: string, limit: number): Promise<ResearchSnippet[]>;
+}
+
+/**
+ * `settings.research` in the character file. Each field falls back to the
+ * matching RESEARCH_* env variable.
+ */
+export interface ResearchSettings {
+  provider?: 'none' | 'feed' | 'http';
+  feedPaths?: string[];
+  searchUrl?: string;
+  apiKey?: string;
+  maxSnippets?: number;
+}
+
+export const DEFAULT_MAX_SNIPPETS = 5;
+const SEARCH_TIMEOUT_MS = 10000;
+const SNIPPET_LENGTH = 300;
+
+const STOP_WORDS = new Set([
+  'will',
+  'what',
+  'when',
+  'which',
+  'with',
+  'that',
+  'this',
+  'from',
+  'have',
+  'than',
+  'more',
+  'before',
+  'after',
+  'the',
+  'and',
+  'for',
+]);
+
+function keywords(text: string): string[] {
+  return [
+    ...new Set(
+      text
+        .toLowerCase()
+        .split(/[^a-z0-9$%.]+/)
+        .map(word => word.replace(/^\.+|\.+$/g, ''))
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    ),
+  ];
+}
+
+function parseDate(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const time = new Date(value as string | number).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function truncate(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > SNIPPET_LENGTH
+    ? `${clean.substring(0, SNIPPET_LENGTH - 3)}...`
+    : clean;
+}
+
+/**
+ * Keep snippets that share keywords with the question, most relevant first
+ * and newest first among equally relevant ones.
+ */
+export function rankSnippets(
+  question: string,
+  snippets: ResearchSnippet[],
+  limit: number
+): ResearchSnippet[] {
+  const terms = keywords(question);
+  return snippets
+    .map(snippet => {
+      const text = `${snippet.title} ${snippet.snippet}`.toLowerCase();
+      return {
+        snippet,
+        score: terms.filter(term => text.includes(term)).length,
+      };
+    })
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (b.snippet.publishedAt ?? 0) - (a.snippet.publishedAt ?? 0)
+    )
+    .slice(0, limit)
+    .map(({ snippet }) => snippet);
+}
+
+/**
+ * Format snippets for the `{{recentNews}}` placeholder, numbered so the model
+ * can refer to them.
+ */
+export function formatResearch(snippets: ResearchSnippet[]): string {
+  return snippets
+    .map((snippet, i) => {
+      const date = snippet.publishedAt
+        ? `, ${new Date(snippet.publishedAt).toISOString().slice(0, 10)}`
+        : '';
+      const url = snippet.url ? `\n    ${snippet.url}` : '';
+      return `[${i + 1}] ${snippet.title} (${snippet.source}${date}): ${snippet.snippet}${url}`;
+    })
+    .join('\n');
+}
+
+export function toResearchSources(
+  snippets: ResearchSnippet[]
+): ResearchSource[] {
+  return snippets.map(({ title, url, source }) => ({ title, url, source }));
+}
+
+const feedItemSchema = z
+  .object({
+    title: z.string(),
+    snippet: z.string().optional(),
+    description: z.string().optional(),
+    summary: z.string().optional(),
+    url: z.string().optional(),
+    link: z.string().optional(),
+    source: z.string().optional(),
+    publishedAt: z.union([z.string(), z.number()]).optional(),
+    pubDate: z.union([z.string(), z.number()]).optional(),
+  })
+  .passthrough();
+
+const feedFileSchema = z.union([
+  z.array(feedItemSchema),
+  z.object({ items: z.array(feedItemSchema) }).transform(feed => feed.items),
+]);
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function xmlTag(item: string, tag: string): string | undefined {
+  const match = item.match(
+    new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i')
+  );
+  return match ? decodeXml(match[1].trim()) : undefined;
+}
+
+/**
+ * Parse RSS `<item>`s (or Atom `<entry>`s) with just enough XML handling for
+ * news feeds: title, link, description and publication date.
+ */
+export function parseRssFeed(xml: string, source: string): ResearchSnippet[] {
+  const channelTitle = xmlTag(xml.split(/<item|<entry/i)[0], 'title');
+  const items = xml.match(/<(item|entry)[\s>][\s\S]*?<\/\1>/gi) ?? [];
+
+  return items.map(item => {
+    const atomLink = item.match(/<link[^>]*href="([^"]+)"/i)?.[1];
+    return {
+      title: xmlTag(item, 'title') ?? '',
+      snippet: truncate(
+        xmlTag(item, 'description') ??
+          xmlTag(item, 'summary') ??
+          xmlTag(item, 'content') ??
+          ''
+      ),
+      url: atomLink ?? xmlTag(item, 'link') ?? null,
+      source: channelTitle || source,
+      publishedAt: parseDate(
+        xmlTag(item, 'pubDate') ??
+          xmlTag(item, 'published') ??
+          xmlTag(item, 'updated')
+      ),
+    };
+  });
+}
+
+export function parseJsonFeed(
+  json: unknown,
+  source: string
+): ResearchSnippet[] {
+  const parsed = feedFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(
+      `[ResearchProvider] ${source} is not a JSON array of feed items`
+    );
+  }
+  return parsed.data.map(item => ({
+    title: item.title,
+    snippet: truncate(item.snippet ?? item.description ?? item.summary ?? ''),
+    url: item.url ?? item.link ?? null,
+    source: item.source ?? source,
+    publishedAt: parseDate(item.publishedAt ?? item.pubDate),
+  }));
+}
+
+/**
+ * Reads local RSS/Atom or JSON feed files (for example ones refreshed by a
+ * cron job) and returns the items that mention the question's keywords.
+ */
+export class FeedResearchProvider implements ResearchProvider {
+  readonly name = 'feed';
+
+  constructor(private readonly paths: string[]) {}
+
+  async gather(question: string, limit: number): Promise<ResearchSnippet[]> {
+    const snippets: ResearchSnippet[] = [];
+    for (const path of this.paths) {
+      try {
+        const content = await readFile(path, 'utf8');
+        snippets.push(
+          ...(content.trimStart().startsWith('<')
+            ? parseRssFeed(content, path)
+            : parseJsonFeed(JSON.parse(content), path))
+        );
+      } catch (error) {
+        elizaLogger.warn(
+          `[ResearchProvider] Skipping feed ${path}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+    return rankSnippets(question, snippets, limit);
+  }
+}
+
+const searchResponseSchema = z.object({
+  results: z.array(feedItemSchema),
+});
+
+/**
+ * Queries an HTTP search API: `GET <searchUrl>?q=<question>&limit=<n>`
+ * answering `{ results: [{ title, snippet, url, source?, publishedAt? }] }`.
+ */
+export class HttpSearchResearchProvider implements ResearchProvider {
+  readonly name = 'http';
+
+  constructor(
+    private readonly searchUrl: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async gather(question: string, limit: number): Promise<ResearchSnippet[]> {
+    const url = new URL(this.searchUrl);
+    url.searchParams.set('q', question);
+    url.searchParams.set('limit', String(limit));
+
+    const response = await fetch(url, {
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `[ResearchProvider] Search API returned ${response.status} ${response.statusText}`
+      );
+    }
+
+    const parsed = searchResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error(
+        '[ResearchProvider] Search API response did not match { results: [...] }'
+      );
+    }
+
+    return parseJsonFeed(parsed.data.results, url.hostname).slice(0, limit);
+  }
+}
+
+/**
+ * Build the configured research backend, or null when research is disabled.
+ * Settings come from `settings.research`, falling back to RESEARCH_PROVIDER,
+ * RESEARCH_FEED_PATHS (comma separated), RESEARCH_SEARCH_URL and
+ * RESEARCH_SEARCH_API_KEY.
+ */
+export function createResearchProvider(
+  settings: ResearchSettings = {},
+  env: Record<string, string | undefined> = process.env
+): ResearchProvider | null {
+  const provider = settings.provider ?? env.RESEARCH_PROVIDER ?? 'none';
+
+  switch (provider) {
+    case 'none':
+      return null;
+    case 'feed': {
+      const paths =
+        settings.feedPaths ??
+        env.RESEARCH_FEED_PATHS?.split(',')
+          .map(path => path.trim())
+          .filter(Boolean) ??
+        [];
+      if (paths.length === 0) {
+        throw new Error(
+          '[ResearchProvider] Feed research needs research.feedPaths or RESEARCH_FEED_PATHS'
+        );
+      }
+      return new FeedResearchProvider(paths);
+    }
+    case 'http': {
+      const searchUrl = settings.searchUrl ?? env.RESEARCH_SEARCH_URL;
+      if (!searchUrl) {
+        throw new Error(
+          '[ResearchProvider] HTTP research needs research.searchUrl or RESEARCH_SEARCH_URL'
+        );
+      }
+      return new HttpSearchResearchProvider(
+        searchUrl,
+        settings.apiKey ?? env.RESEARCH_SEARCH_API_KEY
+      );
+    }
+    default:
+      throw new Error(
+        `[ResearchProvider] Unknown research provider "${provider}" (expected none, feed or http)`
+      );
+  }
+}
@@ -0,0 +1,156 @@
+import { elizaLogger, UUID } from '@elizaos/core';
+import { AttestationLedger, AttestationRecord } from './attestationLedger.js';
+import { SapienceClient, SettledMarket } from './sapienceClient.js';
+import { AccuracyReport, scoreForecasts } from '../utils/scoring.js';
+
+export interface ResolvedForecast {
+  marketId: string;
+  marketAddress: string;
+  question: string;
+  probability: number; // our attested probability, 0-100
+  outcome: number; // resolved value, 0-1
+  attestedAt: number;
+  promptVersion: string | null;
+}
+
+// Key used for attestations recorded before prompt versioning
+export const UNVERSIONED_PROMPT = 'unversioned';
+
+export interface AgentAccuracy extends AccuracyReport {
+  agentId: UUID;
+  checkedAt: number;
+  byPromptVersion: Record<string, AccuracyReport>;
+}
+
+/**
+ * Match settled markets with the attestation we had standing when each one
+ * settled: the latest record made before settlement (or the latest record at
+ * all when the settlement time is unknown). Attestations whose transaction
+ * failed, reverted or was dropped never stood, so they are left out.
+ */
+export function joinResolutions(
+  records: AttestationRecord[],
+  settledMarkets: SettledMarket[]
+): ResolvedForecast[] {
+  const recordsByMarket = new Map<string, AttestationRecord[]>();
+  for (const record of records) {
+    if (
+      record.txStatus === 'failed' ||
+      record.txStatus === 'reverted' ||
+      record.txStatus === 'dropped'
+    ) {
+      continue;
+    }
+    const key = `${record.marketAddress.toLowerCase()}:${record.marketId}`;
+    recordsByMarket.set(key, [...(recordsByMarket.get(key) ?? []), record]);
+  }
+
+  const resolved: ResolvedForecast[] = [];
+  for (const market of settledMarkets) {
+    const key = `${market.marketAddress.toLowerCase()}:${market.marketId}`;
+    const candidates = (recordsByMarket.get(key) ?? []).filter(
+      record =>
+        market.settledAt === null || record.timestamp <= market.settledAt
+    );
+    if (candidates.length === 0) continue;
+
+    const standing = candidates.reduce((latest, record) =>
+      record.timestamp > latest.timestamp ? record : latest
+    );
+    resolved.push({
+      marketId: market.marketId,
+      marketAddress: market.marketAddress,
+      question: market.question,
+      probability: standing.probability,
+      outcome: market.outcome,
+      attestedAt: standing.timestamp,
+      promptVersion: standing.promptVersion,
+    });
+  }
+  return resolved;
+}
+
+function scoreResolved(resolved: ResolvedForecast[]): AccuracyReport {
+  return scoreForecasts(
+    resolved.map(({ probability, outcome }) => ({
+      probability: probability / 100,
+      outcome,
+    }))
+  );
+}
+
+/**
+ * Periodically checks settled markets and scores the agent's live and paper
+ * ledgers against them (Brier score, log loss, calibration).
+ */
+export class ResolutionTracker {
+  private lastCheck: number = 0;
+  private accuracy: AgentAccuracy | null = null;
+  private paperAccuracy: AgentAccuracy | null = null;
+
+  constructor(
+    private readonly agentId: UUID,
+    private readonly ledger: AttestationLedger,
+    private readonly paperLedger: AttestationLedger
+  ) {}
+
+  async refreshIfDue(
+    sapience: SapienceClient,
+    checkInterval: number
+  ): Promise<void> {
+    if (Date.now() - this.lastCheck < checkInterval) {
+      return;
+    }
+    await this.refresh(sapience);
+  }
+
+  async refresh(sapience: SapienceClient): Promise<void> {
+    try {
+      const settledMarkets = await sapience.listSettledMarkets();
+      this.accuracy = await this.score(this.ledger, settledMarkets);
+      this.paperAccuracy = await this.score(this.paperLedger, settledMarkets);
+      this.lastCheck = Date.now();
+
+      elizaLogger.info(
+        `[ResolutionTracker] Scored ${this.accuracy.resolvedCount} resolved attestations (brier: ${this.accuracy.brierScore?.toFixed(4) ?? 'n/a'})`
+      );
+    } catch (error) {
+      elizaLogger.error(
+        '[ResolutionTracker] Failed to check settled markets:',
+        error
+      );
+    }
+  }
+
+  getAccuracy(): {
+    accuracy: AgentAccuracy | null;
+    paperAccuracy: AgentAccuracy | null;
+  } {
+    return { accuracy: this.accuracy, paperAccuracy: this.paperAccuracy };
+  }
+
+  private async score(
+    ledger: AttestationLedger,
+    settledMarkets: SettledMarket[]
+  ): Promise<AgentAccuracy> {
+    const resolved = joinResolutions(await ledger.list(), settledMarkets);
+
+    const byVersion = new Map<string, ResolvedForecast[]>();
+    for (const forecast of resolved) {
+      const version = forecast.promptVersion ?? UNVERSIONED_PROMPT;
+      byVersion.set(version, [...(byVersion.get(version) ?? []), forecast]);
+    }
+
+    return {
+      agentId: this.agentId,
+      checkedAt: Date.now(),
+      ...scoreResolved(resolved),
+      byPromptVersion: Object.fromEntries(
+        [...byVersion].map(([version, forecasts]) => [
+          version,
+          scoreResolved(forecasts),
+        ])
+      ),
+    };
+  }
+}
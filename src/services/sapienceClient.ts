@@ -0,0 +1,251 @@
+import { IAgentRuntime } from '@elizaos/core';
+// @ts-ignore - Sapience plugin types not available at build time
+import type { SapienceService } from '@elizaos/plugin-sapience';
+import { z } from 'zod';
+
+// The API returns ids as either numbers or strings depending on the tool
+const idSchema = z
+  .union([z.number(), z.string().min(1)])
+  .transform(value => String(value));
+
+const optionalNumberSchema = z
+  .union([z.number(), z.string()])
+  .nullish()
+  .transform(value => {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  });
+
+const timestampSchema = z
+  .union([z.string(), z.number()])
+  .transform((value, ctx) => {
+    const time = new Date(value).getTime();
+    if (Number.isNaN(time)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `invalid timestamp "${value}"`,
+      });
+      return z.NEVER;
+    }
+    return time;
+  });
+
+const marketFieldsSchema = z
+  .object({
+    id: idSchema,
+    marketId: idSchema.optional(),
+    marketGroupAddress: z.string().optional(),
+    marketAddress: z.string().optional(),
+    contractAddress: z.string().optional(),
+    question: z.string(),
+    currentPrice: optionalNumberSchema,
+    volume: optionalNumberSchema,
+    endTimestamp: optionalNumberSchema,
+    // Either a plain name or the market group's category object
+    category: z
+      .union([
+        z.string(),
+        z
+          .object({ slug: z.string().nullish(), name: z.string().nullish() })
+          .passthrough(),
+      ])
+      .nullish(),
+  })
+  .passthrough();
+
+function normalizeMarket(
+  market: z.output<typeof marketFieldsSchema>,
+  ctx: z.RefinementCtx
+) {
+  const marketAddress =
+    market.marketGroupAddress || market.marketAddress || market.contractAddress;
+  if (!marketAddress) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `market ${market.id} has no marketGroupAddress, marketAddress or contractAddress`,
+    });
+    return z.NEVER;
+  }
+
+  return {
+    id: market.id,
+    marketId: market.marketId ?? market.id,
+    marketAddress,
+    question: market.question,
+    currentPrice: market.currentPrice,
+    volume: market.volume,
+    endTimestamp: market.endTimestamp,
+    category:
+      (typeof market.category === 'string'
+        ? market.category
+        : (market.category?.slug ?? market.category?.name)) || null,
+  };
+}
+
+/**
+ * Market as returned by `list_active_markets`. The API has used several names
+ * for the market group address over time, so they are all accepted here and
+ * collapsed into a single `marketAddress`.
+ */
+export const marketSchema = marketFieldsSchema.transform(normalizeMarket);
+
+/**
+ * Settled market as returned by `list_settled_markets`. The resolved outcome
+ * is normalized to a 0-1 value from either `outcome` or `settlementPriceD18`.
+ */
+export const settledMarketSchema = marketFieldsSchema
+  .extend({
+    outcome: z
+      .union([z.boolean(), z.number(), z.enum(['yes', 'no', 'YES', 'NO'])])
+      .nullish(),
+    settlementPriceD18: z.union([z.string(), z.number()]).nullish(),
+    settledAt: timestampSchema.nullish(),
+  })
+  .transform((market, ctx) => {
+    const base = normalizeMarket(market, ctx);
+
+    let outcome: number | null = null;
+    if (typeof market.outcome === 'boolean') {
+      outcome = market.outcome ? 1 : 0;
+    } else if (typeof market.outcome === 'string') {
+      outcome = market.outcome.toLowerCase() === 'yes' ? 1 : 0;
+    } else if (typeof market.outcome === 'number') {
+      outcome = market.outcome;
+    } else if (
+      market.settlementPriceD18 !== null &&
+      market.settlementPriceD18 !== undefined
+    ) {
+      outcome = Number(market.settlementPriceD18) / 1e18;
+    }
+
+    if (outcome === null || !(outcome >= 0 && outcome <= 1)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `settled market ${market.id} has no valid outcome or settlementPriceD18`,
+      });
+      return z.NEVER;
+    }
+
+    return { ...base, outcome, settledAt: market.settledAt ?? null };
+  });
+
+/**
+ * Attestation as returned by `get_attestations_by_address` and
+ * `get_recent_attestations`. `prediction` is the raw uint160 sqrtPriceX96.
+ */
+export const marketAttestationSchema = z
+  .object({
+    id: idSchema.nullish(),
+    attester: z.string(),
+    marketAddress: z.string(),
+    marketId: idSchema,
+    prediction: idSchema,
+    comment: z.string().nullish(),
+    createdAt: timestampSchema,
+  })
+  .passthrough()
+  .transform(attestation => ({
+    id: attestation.id ?? null,
+    attester: attestation.attester.toLowerCase(),
+    marketAddress: attestation.marketAddress.toLowerCase(),
+    marketId: attestation.marketId,
+    prediction: attestation.prediction,
+    comment: attestation.comment ?? null,
+    createdAt: attestation.createdAt,
+  }));
+
+export const marketListSchema = z.array(marketSchema);
+export const settledMarketListSchema = z.array(settledMarketSchema);
+export const marketAttestationListSchema = z.array(marketAttestationSchema);
+
+export type Market = z.output<typeof marketSchema>;
+export type SettledMarket = z.output<typeof settledMarketSchema>;
+export type MarketAttestation = z.output<typeof marketAttestationSchema>;
+
+const SAPIENCE_SERVER = 'sapience';
+
+/**
+ * Typed wrapper around the Sapience MCP tools. Each call parses the tool's
+ * text content once and validates it, so callers never deal with raw JSON.
+ */
+export class SapienceClient {
+  constructor(
+    private readonly service: SapienceService,
+    private readonly serverName: string = SAPIENCE_SERVER
+  ) {}
+
+  static fromRuntime(runtime: IAgentRuntime): SapienceClient | null {
+    const service = runtime.getService('sapience') as SapienceService;
+    return service ? new SapienceClient(service) : null;
+  }
+
+  async listActiveMarkets(): Promise<Market[]> {
+    return this.call('list_active_markets', {}, marketListSchema);
+  }
+
+  async listSettledMarkets(): Promise<SettledMarket[]> {
+    return this.call('list_settled_markets', {}, settledMarketListSchema);
+  }
+
+  async getAttestationsByAddress(
+    attesterAddress: string
+  ): Promise<MarketAttestation[]> {
+    const attestations = await this.call(
+      'get_attestations_by_address',
+      { attesterAddress },
+      marketAttestationListSchema
+    );
+    return sortNewestFirst(attestations);
+  }
+
+  async getRecentAttestations(
+    params: { limit?: number; marketId?: string } = {}
+  ): Promise<MarketAttestation[]> {
+    const attestations = await this.call(
+      'get_recent_attestations',
+      params,
+      marketAttestationListSchema
+    );
+    return sortNewestFirst(attestations);
+  }
+
+  private async call<S extends z.ZodTypeAny>(
+    tool: string,
+    args: Record<string, unknown>,
+    schema: S
+  ): Promise<z.output<S>> {
+    const response = await this.service.callTool(this.serverName, tool, args);
+    const text = response?.content?.[0]?.text;
+    if (typeof text !== 'string') {
+      throw new Error(`[SapienceClient] ${tool} returned no text content`);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error(
+        `[SapienceClient] ${tool} returned non-JSON content: ${text.substring(0, 100)}`
+      );
+    }
+
+    const parsed = schema.safeParse(json);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || '<root>'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(
+        `[SapienceClient] ${tool} response did not match the expected shape: ${issues}`
+      );
+    }
+    return parsed.data;
+  }
+}
+
+function sortNewestFirst(
+  attestations: MarketAttestation[]
+): MarketAttestation[] {
+  return [...attestations].sort((a, b) => b.createdAt - a.createdAt);
+}
@@ -0,0 +1,181 @@
+import { formatEther, parseEther } from 'viem';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// `autonomousMode.guardrails` in the character file; unset or null = no limit
+export interface GuardrailSettings {
+  maxAttestationsPerHour?: number | null;
+  maxAttestationsPerDay?: number | null;
+  maxDailyGasEth?: number | null; // gas spent over the last 24 hours
+  minBalanceEth?: number | null; // never submit below this wallet balance
+}
+
+export type GuardrailLimit =
+  | 'attestationsPerHour'
+  | 'attestationsPerDay'
+  | 'dailyGas'
+  | 'minBalance';
+
+export interface GuardrailViolation {
+  limit: GuardrailLimit;
+  reason: string;
+}
+
+export interface GuardrailUsage {
+  attestationsLastHour: number;
+  attestationsLastDay: number;
+  gasSpentLastDayEth: string;
+}
+
+interface Submission {
+  txHash: string | null;
+  timestamp: number;
+  attestations: number;
+  gasCost: bigint; // wei; the worst case until the receipt says otherwise
+}
+
+function validateLimit(name: keyof GuardrailSettings, value: unknown): void {
+  if (value !== undefined && value !== null && !(Number(value) >= 0)) {
+    throw new Error(
+      `[SpendingGuard] guardrails.${name} must be a non-negative number or null, got ${value}`
+    );
+  }
+}
+
+/**
+ * Caps how much the autonomous loop submits: attestations per hour and per
+ * day, gas spent per day, and a floor on the wallet balance. Submissions are
+ * tracked over a rolling 24-hour window. Gas is charged at the worst case
+ * (gas limit x max fee) when a transaction is sent and corrected to the
+ * actual cost once its receipt arrives.
+ */
+export class SpendingGuard {
+  private readonly maxAttestationsPerHour: number | null;
+  private readonly maxAttestationsPerDay: number | null;
+  private readonly maxDailyGas: bigint | null;
+  private readonly minBalance: bigint | null;
+  private submissions: Submission[] = [];
+
+  constructor(settings: GuardrailSettings = {}) {
+    for (const [name, value] of Object.entries(settings)) {
+      validateLimit(name as keyof GuardrailSettings, value);
+    }
+    this.maxAttestationsPerHour = settings.maxAttestationsPerHour ?? null;
+    this.maxAttestationsPerDay = settings.maxAttestationsPerDay ?? null;
+    this.maxDailyGas =
+      settings.maxDailyGasEth != null
+        ? parseEther(String(settings.maxDailyGasEth))
+        : null;
+    this.minBalance =
+      settings.minBalanceEth != null
+        ? parseEther(String(settings.minBalanceEth))
+        : null;
+  }
+
+  // Whether checks need the wallet balance
+  get checksBalance(): boolean {
+    return this.minBalance !== null;
+  }
+
+  record(
+    txHash: string | null,
+    attestations: number,
+    gasCost: bigint = 0n,
+    timestamp: number = Date.now()
+  ): void {
+    this.submissions.push({ txHash, timestamp, attestations, gasCost });
+  }
+
+  // Replace the worst-case gas charged for a transaction with what it cost
+  settle(txHash: string, gasCost: bigint): void {
+    const submission = this.submissions.find(s => s.txHash === txHash);
+    if (submission) {
+      submission.gasCost = gasCost;
+    }
+  }
+
+  /**
+   * The first limit that submitting `attestations` more now would break, or
+   * null if it is within all of them. `balance` is the wallet balance in
+   * wei, or null when it isn't known (the floor is then not enforced).
+   * `gasCost` is the worst case of the transaction about to be sent, when
+   * known, so it can't take the day's gas past the budget.
+   */
+  check(
+    attestations: number,
+    balance: bigint | null,
+    now: number = Date.now(),
+    gasCost: bigint = 0n
+  ): GuardrailViolation | null {
+    this.prune(now);
+    const usage = this.totals(now);
+
+    if (
+      this.maxAttestationsPerHour !== null &&
+      usage.lastHour + attestations > this.maxAttestationsPerHour
+    ) {
+      return {
+        limit: 'attestationsPerHour',
+        reason: `${usage.lastHour} attestations in the last hour; the limit is ${this.maxAttestationsPerHour}`,
+      };
+    }
+    if (
+      this.maxAttestationsPerDay !== null &&
+      usage.lastDay + attestations > this.maxAttestationsPerDay
+    ) {
+      return {
+        limit: 'attestationsPerDay',
+        reason: `${usage.lastDay} attestations in the last 24 hours; the limit is ${this.maxAttestationsPerDay}`,
+      };
+    }
+    if (
+      this.maxDailyGas !== null &&
+      (usage.gas >= this.maxDailyGas || usage.gas + gasCost > this.maxDailyGas)
+    ) {
+      return {
+        limit: 'dailyGas',
+        reason: `${formatEther(usage.gas)} ETH spent on gas in the last 24 hours${gasCost > 0n ? ` and the next transaction could cost up to ${formatEther(gasCost)} ETH` : ''}; the budget is ${formatEther(this.maxDailyGas)} ETH`,
+      };
+    }
+    if (
+      this.minBalance !== null &&
+      balance !== null &&
+      balance < this.minBalance
+    ) {
+      return {
+        limit: 'minBalance',
+        reason: `Wallet balance ${formatEther(balance)} ETH is below the ${formatEther(this.minBalance)} ETH floor`,
+      };
+    }
+    return null;
+  }
+
+  usage(now: number = Date.now()): GuardrailUsage {
+    this.prune(now);
+    const { lastHour, lastDay, gas } = this.totals(now);
+    return {
+      attestationsLastHour: lastHour,
+      attestationsLastDay: lastDay,
+      gasSpentLastDayEth: formatEther(gas),
+    };
+  }
+
+  private totals(now: number) {
+    let lastHour = 0;
+    let lastDay = 0;
+    let gas = 0n;
+    for (const submission of this.submissions) {
+      lastDay += submission.attestations;
+      gas += submission.gasCost;
+      if (now - submission.timestamp < HOUR) {
+        lastHour += submission.attestations;
+      }
+    }
+    return { lastHour, lastDay, gas };
+  }
+
+  private prune(now: number): void {
+    this.submissions = this.submissions.filter(s => now - s.timestamp < DAY);
+  }
+}
@@ -0,0 +1,236 @@
+import { elizaLogger } from '@elizaos/core';
+import {
+  Chain,
+  createPublicClient,
+  defineChain,
+  Hex,
+  http,
+  PublicClient,
+  TransactionNotFoundError,
+  TransactionReceipt,
+  TransactionReceiptNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+} from 'viem';
+import { arbitrum, base, mainnet, optimism, sepolia } from 'viem/chains';
+import { AttestationChain, extractAttestationUids } from '../utils/eas.js';
+
+/**
+ * Where an attestation transaction stands:
+ * - pending: submitted, no receipt yet
+ * - confirmed: mined successfully; the attestation exists on-chain
+ * - reverted: mined but reverted
+ * - failed: never made it on-chain (submission threw)
+ * - unconfirmed: handed to the SUBMIT_TRANSACTION action, which reported no
+ *   hash, so whether it landed can't be checked
+ * - dropped: submitted, but the node no longer knows it (evicted, or its nonce
+ *   was reused), so it will never be mined
+ */
+export type TransactionStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'reverted'
+  | 'failed'
+  | 'unconfirmed'
+  | 'dropped';
+
+export interface TransactionOutcome {
+  txStatus: TransactionStatus;
+  attestationUids: string[]; // one per attestation, in order (several for multiAttest)
+  blockNumber: number | null;
+  txError: string | null;
+  gasCost: bigint | null; // wei actually paid, once mined
+}
+
+export interface TransactionTrackerOptions {
+  confirmations?: number;
+  timeout?: number; // ms to wait for a receipt before leaving the tx pending
+  dropAfter?: number; // ms after submission before a tx the node doesn't know counts as dropped
+}
+
+export const DEFAULT_DROP_AFTER = 10 * 60 * 1000;
+
+const VIEM_CHAINS: Record<number, Chain> = {
+  [mainnet.id]: mainnet,
+  [sepolia.id]: sepolia,
+  [optimism.id]: optimism,
+  [base.id]: base,
+  [arbitrum.id]: arbitrum,
+};
+
+/**
+ * viem chain definition for the attestation chain. Chains viem doesn't ship
+ * (e.g. a local devnet) are defined from the configured RPC URL.
+ */
+export function toViemChain(chain: AttestationChain): Chain {
+  const known = VIEM_CHAINS[chain.chainId];
+  if (known) {
+    return known;
+  }
+  if (!chain.rpcUrl) {
+    throw new Error(
+      `[TransactionTracker] No RPC known for chain ${chain.chainId}; set attestation.rpcUrls[${chain.chainId}] or ATTESTATION_RPC_URL`
+    );
+  }
+  return defineChain({
+    id: chain.chainId,
+    name: chain.name,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [chain.rpcUrl] } },
+  });
+}
+
+export function createChainPublicClient(chain: AttestationChain): PublicClient {
+  return createPublicClient({
+    chain: toViemChain(chain),
+    transport: http(chain.rpcUrl ?? undefined),
+  }) as PublicClient;
+}
+
+/**
+ * Waits for attestation transactions to be mined and reports what happened,
+ * including the attestation UIDs from the EAS `Attested` events.
+ */
+export class TransactionTracker {
+  private readonly confirmations: number;
+  private readonly timeout: number;
+  private readonly dropAfter: number;
+
+  constructor(
+    private readonly client: Pick<
+      PublicClient,
+      'waitForTransactionReceipt' | 'getTransactionReceipt' | 'getTransaction'
+    >,
+    private readonly chain: AttestationChain,
+    options: TransactionTrackerOptions = {}
+  ) {
+    this.confirmations = options.confirmations ?? 1;
+    this.timeout = options.timeout ?? 120000;
+    this.dropAfter = options.dropAfter ?? DEFAULT_DROP_AFTER;
+  }
+
+  /**
+   * Wait for the receipt of `txHash`. A timeout or RPC error leaves the
+   * transaction pending so it can be checked again later.
+   */
+  async track(txHash: string): Promise<TransactionOutcome> {
+    try {
+      const receipt = await this.client.waitForTransactionReceipt({
+        hash: txHash as Hex,
+        confirmations: this.confirmations,
+        timeout: this.timeout,
+      });
+      return this.fromReceipt(txHash, receipt);
+    } catch (error) {
+      const message =
+        error instanceof WaitForTransactionReceiptTimeoutError
+          ? `No receipt after ${Math.round(this.timeout / 1000)}s`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      elizaLogger.warn(
+        `[TransactionTracker] Could not confirm ${txHash} yet: ${message}`
+      );
+      return {
+        txStatus: 'pending',
+        attestationUids: [],
+        blockNumber: null,
+        gasCost: null,
+        txError: message,
+      };
+    }
+  }
+
+  /**
+   * Look up the receipt of a transaction submitted earlier without waiting,
+   * e.g. for ledger entries still pending after a restart. Without a receipt
+   * it stays pending, unless it was submitted (at `submittedAt`) longer than
+   * `dropAfter` ago and the node no longer knows it, which makes it dropped.
+   */
+  async check(
+    txHash: string,
+    submittedAt?: number
+  ): Promise<TransactionOutcome> {
+    try {
+      const receipt = await this.client.getTransactionReceipt({
+        hash: txHash as Hex,
+      });
+      return this.fromReceipt(txHash, receipt);
+    } catch (error) {
+      if (
+        error instanceof TransactionReceiptNotFoundError &&
+        submittedAt !== undefined &&
+        Date.now() - submittedAt >= this.dropAfter &&
+        (await this.isUnknown(txHash))
+      ) {
+        elizaLogger.warn(
+          `[TransactionTracker] ${txHash} is no longer known to the node; marking it dropped`
+        );
+        return {
+          txStatus: 'dropped',
+          attestationUids: [],
+          blockNumber: null,
+          gasCost: 0n,
+          txError: 'Transaction dropped before it was mined',
+        };
+      }
+      return {
+        txStatus: 'pending',
+        attestationUids: [],
+        blockNumber: null,
+        gasCost: null,
+        txError:
+          error instanceof TransactionReceiptNotFoundError
+            ? null
+            : error instanceof Error
+              ? error.message
+              : String(error),
+      };
+    }
+  }
+
+  // Whether the node has no record of the transaction at all
+  private async isUnknown(txHash: string): Promise<boolean> {
+    try {
+      await this.client.getTransaction({ hash: txHash as Hex });
+      return false;
+    } catch (error) {
+      return error instanceof TransactionNotFoundError;
+    }
+  }
+
+  private fromReceipt(
+    txHash: string,
+    receipt: Pick<
+      TransactionReceipt,
+      'status' | 'blockNumber' | 'logs' | 'gasUsed' | 'effectiveGasPrice'
+    >
+  ): TransactionOutcome {
+    const gasCost = receipt.gasUsed * receipt.effectiveGasPrice;
+    if (receipt.status === 'reverted') {
+      return {
+        txStatus: 'reverted',
+        attestationUids: [],
+        blockNumber: Number(receipt.blockNumber),
+        gasCost,
+        txError: 'Transaction reverted',
+      };
+    }
+
+    const attestationUids = extractAttestationUids(
+      receipt.logs,
+      this.chain.easAddress
+    );
+    if (attestationUids.length === 0) {
+      elizaLogger.warn(
+        `[TransactionTracker] ${txHash} succeeded but emitted no Attested event from ${this.chain.easAddress}`
+      );
+    }
+    return {
+      txStatus: 'confirmed',
+      attestationUids,
+      blockNumber: Number(receipt.blockNumber),
+      gasCost,
+      txError: null,
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { BaseError, formatEther, PublicClient } from 'viem';
+import { AttestationChain } from '../utils/eas.js';
+
+// What the agent's wallet looked like on the attestation chain at its last check
+export interface WalletHealth {
+  address: string;
+  chainId: number; // configured attestation chain
+  rpcChainId: number | null; // chain the RPC actually serves
+  balanceEth: string | null;
+  nonce: number | null; // pending transaction count
+  problems: string[]; // empty when the wallet can submit
+  checkedAt: number;
+}
+
+export type WalletHealthClient = Pick<
+  PublicClient,
+  'getBalance' | 'getTransactionCount' | 'getChainId'
+>;
+
+// A wallet known to hold nothing can't pay for a single attestation
+export function isUnfunded(health: WalletHealth | null): boolean {
+  return health?.balanceEth === '0';
+}
+
+/**
+ * Read the wallet's balance, nonce and the RPC's chain id, and list anything
+ * that would stop it from submitting attestations on `chain`. RPC failures
+ * are reported as problems rather than thrown.
+ */
+export async function checkWalletHealth(
+  client: WalletHealthClient,
+  address: string,
+  chain: AttestationChain,
+  now: number = Date.now()
+): Promise<WalletHealth> {
+  const health: WalletHealth = {
+    address,
+    chainId: chain.chainId,
+    rpcChainId: null,
+    balanceEth: null,
+    nonce: null,
+    problems: [],
+    checkedAt: now,
+  };
+
+  try {
+    const [rpcChainId, balance, nonce] = await Promise.all([
+      client.getChainId(),
+      client.getBalance({ address: address as `0x${string}` }),
+      client.getTransactionCount({
+        address: address as `0x${string}`,
+        blockTag: 'pending',
+      }),
+    ]);
+    health.rpcChainId = rpcChainId;
+    health.balanceEth = formatEther(balance);
+    health.nonce = nonce;
+  } catch (error) {
+    const message =
+      error instanceof BaseError
+        ? error.shortMessage
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    health.problems.push(`Could not reach the ${chain.name} RPC: ${message}`);
+    return health;
+  }
+
+  if (health.rpcChainId !== chain.chainId) {
+    health.problems.push(
+      `RPC is on chain ${health.rpcChainId} but attestations go to ${chain.name} (${chain.chainId})`
+    );
+  }
+  if (isUnfunded(health)) {
+    health.problems.push(`Wallet has no ETH on ${chain.name} to pay for gas`);
+  }
+  return health;
+}
@@ -0,0 +1,317 @@
+import { elizaLogger, IAgentRuntime } from '@elizaos/core';
+import {
+  BaseError,
+  Chain,
+  createPublicClient,
+  createWalletClient,
+  formatGwei,
+  Hex,
+  http,
+  LocalAccount,
+  parseGwei,
+  PublicClient,
+  TransactionNotFoundError,
+  Transport,
+  WalletClient,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { AttestationChain } from '../utils/eas.js';
+import { Mutex } from '../utils/concurrency.js';
+import { toViemChain } from './transactionTracker.js';
+
+// `settings.wallet` in the character file
+export interface WalletSettings {
+  gasMultiplier?: number; // headroom on the estimated gas limit
+  maxFeePerGasGwei?: number; // cap on the EIP-1559 max fee per gas
+  maxPriorityFeePerGasGwei?: number; // cap on the priority fee (tip)
+  actionFallback?: boolean; // submit via the SUBMIT_TRANSACTION action when there is no signer
+}
+
+export const DEFAULT_GAS_MULTIPLIER = 1.2;
+
+// Transaction as built by buildAttestationCalldata
+export interface TransactionRequest {
+  to: string;
+  data: string;
+  value: string;
+  chainId: number;
+}
+
+export interface SentTransaction {
+  txHash: string;
+  nonce: number;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export type SignerPublicClient = Pick<
+  PublicClient,
+  | 'estimateGas'
+  | 'estimateFeesPerGas'
+  | 'getTransactionCount'
+  | 'getBalance'
+  | 'getTransaction'
+>;
+export type SignerWalletClient = Pick<
+  WalletClient<Transport, Chain, LocalAccount>,
+  'sendTransaction'
+>;
+
+/**
+ * The agent's private key: EVM_PRIVATE_KEY, or the older PRIVATE_KEY and
+ * WALLET_PRIVATE_KEY names. Everything that signs or reports on the wallet
+ * reads it here, so they all agree on which wallet that is.
+ */
+export function resolvePrivateKey(
+  env: NodeJS.ProcessEnv = process.env
+): Hex | null {
+  const privateKey =
+    env.EVM_PRIVATE_KEY || env.PRIVATE_KEY || env.WALLET_PRIVATE_KEY;
+  return privateKey ? (privateKey as Hex) : null;
+}
+
+export function getWalletSettings(runtime: IAgentRuntime): WalletSettings {
+  return (runtime.character?.settings as any)?.wallet ?? {};
+}
+
+export function validateWalletSettings(settings: WalletSettings): void {
+  const { gasMultiplier, maxFeePerGasGwei, maxPriorityFeePerGasGwei } =
+    settings;
+  if (gasMultiplier !== undefined && !(gasMultiplier >= 1)) {
+    throw new Error(
+      `[WalletSigner] wallet.gasMultiplier must be at least 1, got ${gasMultiplier}`
+    );
+  }
+  if (maxFeePerGasGwei !== undefined && !(maxFeePerGasGwei > 0)) {
+    throw new Error(
+      `[WalletSigner] wallet.maxFeePerGasGwei must be positive, got ${maxFeePerGasGwei}`
+    );
+  }
+  if (
+    maxPriorityFeePerGasGwei !== undefined &&
+    !(maxPriorityFeePerGasGwei >= 0)
+  ) {
+    throw new Error(
+      `[WalletSigner] wallet.maxPriorityFeePerGasGwei must be non-negative, got ${maxPriorityFeePerGasGwei}`
+    );
+  }
+}
+
+function minBigInt(a: bigint, b: bigint | null): bigint {
+  return b !== null && b < a ? b : a;
+}
+
+type SignerRequest = { to: Hex; data: Hex; value: bigint };
+
+function toRequest(tx: TransactionRequest): SignerRequest {
+  return {
+    to: tx.to as Hex,
+    data: tx.data as Hex,
+    value: BigInt(tx.value || '0'),
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof BaseError
+    ? error.shortMessage
+    : error instanceof Error
+      ? error.message
+      : String(error);
+}
+
+/**
+ * Signs and sends attestation transactions from the agent's own key.
+ * Nonces are assigned locally so back-to-back submissions don't collide
+ * while earlier ones are still in the mempool; gas is estimated per
+ * transaction with some headroom, and EIP-1559 fees are capped when the
+ * network asks for more than the configured maximum (such transactions
+ * stay pending until fees come down).
+ */
+export class WalletSigner {
+  private readonly gasMultiplier: number;
+  private readonly maxFeePerGas: bigint | null;
+  private readonly maxPriorityFeePerGas: bigint | null;
+  // Next nonce to use, or null to read it from the chain
+  private nonce: number | null = null;
+  // Hashes of sent transactions by nonce, until the chain counts them
+  private readonly sent = new Map<number, Hex>();
+  private readonly lock = new Mutex();
+
+  constructor(
+    private readonly account: LocalAccount,
+    private readonly chain: AttestationChain,
+    private readonly publicClient: SignerPublicClient,
+    private readonly walletClient: SignerWalletClient,
+    settings: WalletSettings = {}
+  ) {
+    validateWalletSettings(settings);
+    this.gasMultiplier = settings.gasMultiplier ?? DEFAULT_GAS_MULTIPLIER;
+    this.maxFeePerGas =
+      settings.maxFeePerGasGwei !== undefined
+        ? parseGwei(String(settings.maxFeePerGasGwei))
+        : null;
+    this.maxPriorityFeePerGas =
+      settings.maxPriorityFeePerGasGwei !== undefined
+        ? parseGwei(String(settings.maxPriorityFeePerGasGwei))
+        : null;
+  }
+
+  get address(): string {
+    return this.account.address;
+  }
+
+  // Balance of the signing wallet in wei
+  getBalance(): Promise<bigint> {
+    return this.publicClient.getBalance({ address: this.account.address });
+  }
+
+  async send(tx: TransactionRequest): Promise<SentTransaction> {
+    if (tx.chainId !== this.chain.chainId) {
+      throw new Error(
+        `[WalletSigner] Transaction is for chain ${tx.chainId} but the signer is on ${this.chain.name} (${this.chain.chainId})`
+      );
+    }
+
+    return this.lock.run(async () => {
+      const request = toRequest(tx);
+
+      try {
+        const nonce = await this.nextNonce();
+        const gas = await this.gasLimit(request);
+        const fees = await this.fees();
+
+        const txHash = await this.walletClient.sendTransaction({
+          ...request,
+          nonce,
+          gas,
+          ...fees,
+        });
+        this.nonce = nonce + 1;
+        this.sent.set(nonce, txHash);
+
+        elizaLogger.info(
+          `[WalletSigner] Sent ${txHash} from ${this.account.address} (nonce ${nonce}, gas ${gas}, max fee ${formatGwei(fees.maxFeePerGas)} gwei)`
+        );
+        return { txHash, nonce, gas, ...fees };
+      } catch (error) {
+        // Re-read the nonce next time in case this one was used after all
+        this.nonce = null;
+        throw new Error(
+          `[WalletSigner] Failed to send transaction: ${errorMessage(error)}`
+        );
+      }
+    });
+  }
+
+  // Worst case that sending `tx` now could cost (gas limit x max fee), in wei
+  async estimateCost(tx: TransactionRequest): Promise<bigint> {
+    try {
+      const gas = await this.gasLimit(toRequest(tx));
+      const { maxFeePerGas } = await this.fees();
+      return gas * maxFeePerGas;
+    } catch (error) {
+      throw new Error(
+        `[WalletSigner] Failed to estimate transaction cost: ${errorMessage(error)}`
+      );
+    }
+  }
+
+  // Estimated gas plus the configured headroom
+  private async gasLimit(request: SignerRequest): Promise<bigint> {
+    const estimatedGas = await this.publicClient.estimateGas({
+      account: this.account,
+      ...request,
+    });
+    return (estimatedGas * BigInt(Math.round(this.gasMultiplier * 100))) / 100n;
+  }
+
+  // The chain's pending count, unless we have already used nonces beyond it
+  // and one of those transactions is still known to the node
+  private async nextNonce(): Promise<number> {
+    const pending = await this.publicClient.getTransactionCount({
+      address: this.account.address,
+      blockTag: 'pending',
+    });
+    for (const nonce of this.sent.keys()) {
+      if (nonce < pending) this.sent.delete(nonce);
+    }
+    if (this.nonce === null || pending >= this.nonce) {
+      return pending;
+    }
+    if (await this.hasOutstanding()) {
+      return this.nonce;
+    }
+
+    // Everything past the pending count was dropped, so reuse those nonces
+    // rather than leave a gap that stalls every later transaction
+    elizaLogger.warn(
+      `[WalletSigner] Transactions from nonce ${pending} were dropped; resyncing ${this.account.address} from nonce ${this.nonce} to ${pending}`
+    );
+    this.sent.clear();
+    this.nonce = pending;
+    return pending;
+  }
+
+  // Whether the node still knows any transaction we sent past its count
+  private async hasOutstanding(): Promise<boolean> {
+    for (const hash of this.sent.values()) {
+      try {
+        await this.publicClient.getTransaction({ hash });
+        return true;
+      } catch (error) {
+        if (!(error instanceof TransactionNotFoundError)) {
+          // Can't tell, so keep the local nonce rather than risk a replacement
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  private async fees(): Promise<{
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+  }> {
+    const estimated = await this.publicClient.estimateFeesPerGas();
+    const maxFeePerGas = minBigInt(estimated.maxFeePerGas, this.maxFeePerGas);
+    const maxPriorityFeePerGas = minBigInt(
+      minBigInt(estimated.maxPriorityFeePerGas, this.maxPriorityFeePerGas),
+      maxFeePerGas
+    );
+
+    if (maxFeePerGas < estimated.maxFeePerGas) {
+      elizaLogger.warn(
+        `[WalletSigner] Network max fee ${formatGwei(estimated.maxFeePerGas)} gwei is above the ${formatGwei(maxFeePerGas)} gwei cap; the transaction may wait`
+      );
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+}
+
+/**
+ * Signer for the attestation chain from the agent's private key (see
+ * resolvePrivateKey), sending through the chain's configured RPC. Returns
+ * null when no key is set.
+ */
+export function createWalletSigner(
+  chain: AttestationChain,
+  settings: WalletSettings = {},
+  env: NodeJS.ProcessEnv = process.env
+): WalletSigner | null {
+  const privateKey = resolvePrivateKey(env);
+  if (!privateKey) {
+    return null;
+  }
+
+  const account = privateKeyToAccount(privateKey);
+  const viemChain = toViemChain(chain);
+  const transport = http(chain.rpcUrl ?? undefined);
+  return new WalletSigner(
+    account,
+    chain,
+    createPublicClient({ chain: viemChain, transport }),
+    createWalletClient({ account, chain: viemChain, transport }),
+    settings
+  );
+}
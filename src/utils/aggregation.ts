@@ -0,0 +1,99 @@
+/**
+ * Pooling several probability forecasts for the same market into one.
+ * Probabilities are expressed on a 0-100 scale, as the model returns them.
+ */
+
+export type AggregationMethod = 'mean' | 'median' | 'trimmed-mean' | 'log-odds';
+
+export const AGGREGATION_METHODS: AggregationMethod[] = [
+  'mean',
+  'median',
+  'trimmed-mean',
+  'log-odds',
+];
+
+export interface AggregationOptions {
+  trimFraction?: number; // share of samples dropped from each end for trimmed-mean, in [0, 0.5)
+}
+
+const DEFAULT_TRIM_FRACTION = 0.2;
+// Just under half, so at least the middle sample always survives the trim
+const MAX_TRIM_FRACTION = 0.49;
+// Keeps log-odds finite for samples of exactly 0% or 100%
+const LOG_ODDS_EPSILON = 0.005;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+function trimmedMean(values: number[], trimFraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const fraction = Math.min(Math.max(trimFraction, 0), MAX_TRIM_FRACTION);
+  const trim = Math.floor(sorted.length * fraction);
+  return mean(sorted.slice(trim, sorted.length - trim));
+}
+
+// Average in log-odds space, i.e. the geometric mean of the odds
+function logOddsPool(values: number[]): number {
+  const logOdds = values.map(value => {
+    const p = Math.min(
+      1 - LOG_ODDS_EPSILON,
+      Math.max(LOG_ODDS_EPSILON, value / 100)
+    );
+    return Math.log(p / (1 - p));
+  });
+  return 100 / (1 + Math.exp(-mean(logOdds)));
+}
+
+export function aggregateProbabilities(
+  probabilities: number[],
+  method: AggregationMethod,
+  options: AggregationOptions = {}
+): number {
+  if (probabilities.length === 0) {
+    throw new Error('[Aggregation] Cannot aggregate an empty set of samples');
+  }
+
+  switch (method) {
+    case 'mean':
+      return mean(probabilities);
+    case 'median':
+      return median(probabilities);
+    case 'trimmed-mean':
+      return trimmedMean(
+        probabilities,
+        options.trimFraction ?? DEFAULT_TRIM_FRACTION
+      );
+    case 'log-odds':
+      return logOddsPool(probabilities);
+    default:
+      throw new Error(
+        `[Aggregation] Unknown aggregation method "${method}" (expected ${AGGREGATION_METHODS.join(', ')})`
+      );
+  }
+}
+
+/**
+ * Confidence (0-1) from how much the samples agree: 1 when they are
+ * identical, falling to 0 at the largest possible spread (half the samples
+ * at 0% and half at 100%, a standard deviation of 50 points). A single
+ * sample says nothing about agreement and gets 0.
+ */
+export function dispersionConfidence(probabilities: number[]): number {
+  if (probabilities.length < 2) {
+    return 0;
+  }
+  const average = mean(probabilities);
+  const stdDev = Math.sqrt(
+    mean(probabilities.map(value => (value - average) ** 2))
+  );
+  return Math.max(0, 1 - stdDev / 50);
+}
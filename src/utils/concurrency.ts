@@ -0,0 +1,49 @@
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ * Results come back in input order as settled results, so one failing item
+ * doesn't stop the rest.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = {
+          status: 'fulfilled',
+          value: await worker(items[index], index),
+        };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.min(
+    items.length,
+    Math.max(1, Math.floor(concurrency) || 1)
+  );
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+}
+
+/**
+ * Runs tasks one at a time in the order they were queued, for work that must
+ * not overlap even when its callers run in parallel.
+ */
+export class Mutex {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    // Keep the queue going whether or not this task fails
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
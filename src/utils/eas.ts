@@ -1,9 +1,18 @@
-import { elizaLogger } from '@elizaos/core';
+import { elizaLogger, IAgentRuntime } from '@elizaos/core';
 import {
+  decodeAbiParameters,
+  decodeEventLog,
+  decodeFunctionData,
   encodeAbiParameters,
   encodeFunctionData,
+  Hex,
   parseAbiParameters,
+  toFunctionSelector,
 } from 'viem';
+import {
+  probabilityToSqrtPriceX96,
+  sqrtPriceX96ToProbability,
+} from './sqrtPrice.js';
 
 // EAS contract addresses by chain
 const EAS_CONTRACTS: Record<number, string> = {
@@ -14,10 +23,40 @@ const EAS_CONTRACTS: Record<number, string> = {
   42161: '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458', // Arbitrum
 };
 
+const CHAIN_NAMES: Record<number, string> = {
+  1: 'Ethereum',
+  11155111: 'Sepolia',
+  10: 'Optimism',
+  8453: 'Base',
+  42161: 'Arbitrum',
+};
+
+export const DEFAULT_CHAIN_ID = 42161;
+
 // Prediction market schema
 const SCHEMA_ID =
   '0x2dbb0921fa38ebc044ab0a7fe109442c456fb9ad39a68ce0a32f193744d17744';
 
+// Schema UIDs are per chain - SCHEMA_ID is only registered on Arbitrum
+const SCHEMA_IDS: Record<number, string> = {
+  42161: SCHEMA_ID,
+};
+
+// Field layout registered for SCHEMA_ID
+const SCHEMA_PARAMETERS = parseAbiParameters(
+  'address marketAddress, uint256 marketId, bytes32 questionId, uint160 prediction, string comment'
+);
+
+// AttestationRequestData struct
+const REQUEST_DATA_COMPONENTS = [
+  { name: 'recipient', type: 'address' },
+  { name: 'expirationTime', type: 'uint64' },
+  { name: 'revocable', type: 'bool' },
+  { name: 'refUID', type: 'bytes32' },
+  { name: 'data', type: 'bytes' },
+  { name: 'value', type: 'uint256' },
+] as const;
+
 // EAS ABI for attestation
 const EAS_ABI = [
   {
@@ -32,14 +71,7 @@ const EAS_ABI = [
           {
             name: 'data',
             type: 'tuple',
-            components: [
-              { name: 'recipient', type: 'address' },
-              { name: 'expirationTime', type: 'uint64' },
-              { name: 'revocable', type: 'bool' },
-              { name: 'refUID', type: 'bytes32' },
-              { name: 'data', type: 'bytes' },
-              { name: 'value', type: 'uint256' },
-            ],
+            components: REQUEST_DATA_COMPONENTS,
           },
         ],
       },
@@ -47,6 +79,40 @@ const EAS_ABI = [
     outputs: [{ name: '', type: 'bytes32' }],
     stateMutability: 'payable',
   },
+  {
+    name: 'multiAttest',
+    type: 'function',
+    inputs: [
+      {
+        name: 'multiRequests',
+        type: 'tuple[]',
+        components: [
+          { name: 'schema', type: 'bytes32' },
+          {
+            name: 'data',
+            type: 'tuple[]',
+            components: REQUEST_DATA_COMPONENTS,
+          },
+        ],
+      },
+    ],
+    outputs: [{ name: '', type: 'bytes32[]' }],
+    stateMutability: 'payable',
+  },
+] as const;
+
+// Emitted by EAS for every new attestation; `uid` identifies it on-chain
+const ATTESTED_EVENT_ABI = [
+  {
+    name: 'Attested',
+    type: 'event',
+    inputs: [
+      { name: 'recipient', type: 'address', indexed: true },
+      { name: 'attester', type: 'address', indexed: true },
+      { name: 'uid', type: 'bytes32', indexed: false },
+      { name: 'schemaUID', type: 'bytes32', indexed: true },
+    ],
+  },
 ] as const;
 
 interface Market {
@@ -61,6 +127,84 @@ interface Prediction {
   confidence: number;
 }
 
+export interface AttestationChain {
+  chainId: number;
+  name: string;
+  easAddress: string;
+  schemaId: string;
+  rpcUrl: string | null; // null uses the chain's public RPC
+}
+
+// `settings.attestation` in the character file
+export interface AttestationChainSettings {
+  chainId?: number | string;
+  schemaIds?: Record<string, string>; // chainId -> schema UID overrides
+  easAddresses?: Record<string, string>; // chainId -> EAS contract overrides
+  rpcUrls?: Record<string, string>; // chainId -> RPC endpoint for sending transactions and reading receipts
+}
+
+/**
+ * Resolve which chain, EAS contract and schema UID attestations go to.
+ * Character settings take precedence over ATTESTATION_CHAIN_ID /
+ * ATTESTATION_SCHEMA_ID / ATTESTATION_RPC_URL, which take precedence over
+ * the Arbitrum defaults. ATTESTATION_SCHEMA_ID is the schema on the chain
+ * ATTESTATION_CHAIN_ID names, so it is ignored for any other chain.
+ */
+export function resolveAttestationChain(
+  settings: AttestationChainSettings = {},
+  env: NodeJS.ProcessEnv = process.env
+): AttestationChain {
+  const chainId = Number(
+    settings.chainId ?? env.ATTESTATION_CHAIN_ID ?? DEFAULT_CHAIN_ID
+  );
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error(
+      `Invalid attestation chain id "${settings.chainId ?? env.ATTESTATION_CHAIN_ID}"`
+    );
+  }
+
+  const easAddress = settings.easAddresses?.[chainId] ?? EAS_CONTRACTS[chainId];
+  if (!easAddress) {
+    throw new Error(
+      `No EAS contract known for chain ${chainId}; set attestation.easAddresses[${chainId}]`
+    );
+  }
+
+  const envSchemaId =
+    env.ATTESTATION_CHAIN_ID && Number(env.ATTESTATION_CHAIN_ID) === chainId
+      ? env.ATTESTATION_SCHEMA_ID
+      : undefined;
+  if (env.ATTESTATION_SCHEMA_ID && !envSchemaId) {
+    elizaLogger.warn(
+      `ATTESTATION_SCHEMA_ID is set for chain ${env.ATTESTATION_CHAIN_ID ?? '(no ATTESTATION_CHAIN_ID)'}, not ${chainId}; ignoring it`
+    );
+  }
+  const schemaId =
+    settings.schemaIds?.[chainId] ?? envSchemaId ?? SCHEMA_IDS[chainId];
+  if (!schemaId) {
+    throw new Error(
+      `No attestation schema registered for chain ${chainId}; set attestation.schemaIds[${chainId}], or ATTESTATION_SCHEMA_ID with ATTESTATION_CHAIN_ID=${chainId}`
+    );
+  }
+
+  return {
+    chainId,
+    name: CHAIN_NAMES[chainId] ?? `chain ${chainId}`,
+    easAddress,
+    schemaId: schemaId.toLowerCase(),
+    rpcUrl: settings.rpcUrls?.[chainId] ?? env.ATTESTATION_RPC_URL ?? null,
+  };
+}
+
+/**
+ * Attestation chain configured for an agent via `settings.attestation`.
+ */
+export function getAttestationChain(runtime: IAgentRuntime): AttestationChain {
+  return resolveAttestationChain(
+    (runtime.character?.settings as any)?.attestation
+  );
+}
+
 export interface AttestationCalldata {
   to: string;
   data: string;
@@ -69,50 +213,44 @@ export interface AttestationCalldata {
   description: string;
 }
 
+// One AttestationRequestData entry for SCHEMA_PARAMETERS
+function buildRequestData(market: Market, prediction: Prediction) {
+  // Schema: 'address marketAddress,uint256 marketId,bytes32 questionId,uint160 prediction,string comment'
+  const encodedData = encodeAbiParameters(SCHEMA_PARAMETERS, [
+    market.address as `0x${string}`,
+    BigInt(market.marketId),
+    '0x0000000000000000000000000000000000000000000000000000000000000000' as `0x${string}`, // questionId placeholder
+    probabilityToSqrtPriceX96(prediction.probability),
+    prediction.reasoning.length > 180
+      ? prediction.reasoning.substring(0, 177) + '...'
+      : prediction.reasoning,
+  ]);
+
+  return {
+    recipient: '0x0000000000000000000000000000000000000000' as `0x${string}`,
+    expirationTime: 0n,
+    revocable: false,
+    refUID:
+      '0x0000000000000000000000000000000000000000000000000000000000000000' as `0x${string}`,
+    data: encodedData,
+    value: 0n,
+  };
+}
+
 export async function buildAttestationCalldata(
   market: Market,
   prediction: Prediction,
-  chainId: number = 42161 // Default to Arbitrum
+  chain: AttestationChain | number = DEFAULT_CHAIN_ID
 ): Promise<AttestationCalldata | null> {
   try {
-    // Use Viem to encode the attestation data directly
-    // Schema: 'address marketAddress,uint256 marketId,bytes32 questionId,uint160 prediction,string comment'
-    const encodedData = encodeAbiParameters(
-      parseAbiParameters(
-        'address marketAddress, uint256 marketId, bytes32 questionId, uint160 prediction, string comment'
-      ),
-      [
-        market.address as `0x${string}`,
-        BigInt(market.marketId),
-        '0x0000000000000000000000000000000000000000000000000000000000000000' as `0x${string}`, // questionId placeholder
-        (() => {
-          // Convert probability (0-100) to price (0-1)
-          const price = prediction.probability / 100;
-
-          // Calculate sqrtPriceX96 using the same formula as Sapience
-          const sqrtPrice = BigInt(Math.floor(Math.sqrt(price) * 10 ** 18));
-          const Q96 = BigInt('79228162514264337593543950336');
-          return BigInt(sqrtPrice * Q96) / BigInt(10 ** 18);
-        })(), // Calculate sqrtPriceX96 for the prediction
-        prediction.reasoning.length > 180
-          ? prediction.reasoning.substring(0, 177) + '...'
-          : prediction.reasoning,
-      ]
-    );
+    const { chainId, easAddress, schemaId } =
+      typeof chain === 'number'
+        ? resolveAttestationChain({ chainId: chain })
+        : chain;
 
-    // Build the attestation request
     const attestationRequest = {
-      schema: SCHEMA_ID as `0x${string}`,
-      data: {
-        recipient:
-          '0x0000000000000000000000000000000000000000' as `0x${string}`,
-        expirationTime: 0n,
-        revocable: false,
-        refUID:
-          '0x0000000000000000000000000000000000000000000000000000000000000000' as `0x${string}`,
-        data: encodedData as `0x${string}`,
-        value: 0n,
-      },
+      schema: schemaId as `0x${string}`,
+      data: buildRequestData(market, prediction),
     };
 
     // Encode the function call
@@ -122,12 +260,6 @@ export async function buildAttestationCalldata(
       args: [attestationRequest],
     });
 
-    const easAddress = EAS_CONTRACTS[chainId];
-    if (!easAddress) {
-      elizaLogger.warn(`No EAS contract for chain ${chainId}`);
-      return null;
-    }
-
     // Log attestation details (temporary for debugging)
     console.log(`\n📝 Attestation prepared for market #${market.marketId}:`);
     console.log(`   • Prediction: ${prediction.probability}% YES`);
@@ -150,3 +282,168 @@ export async function buildAttestationCalldata(
     return null;
   }
 }
+
+/**
+ * Build one EAS `multiAttest` call carrying an attestation per prediction,
+ * in the given order. Returns null if there is nothing to attest or encoding
+ * fails.
+ */
+export function buildMultiAttestationCalldata(
+  attestations: { market: Market; prediction: Prediction }[],
+  chain: AttestationChain | number = DEFAULT_CHAIN_ID
+): AttestationCalldata | null {
+  if (attestations.length === 0) {
+    return null;
+  }
+
+  try {
+    const { chainId, easAddress, schemaId } =
+      typeof chain === 'number'
+        ? resolveAttestationChain({ chainId: chain })
+        : chain;
+
+    const calldata = encodeFunctionData({
+      abi: EAS_ABI,
+      functionName: 'multiAttest',
+      args: [
+        [
+          {
+            schema: schemaId as `0x${string}`,
+            data: attestations.map(({ market, prediction }) =>
+              buildRequestData(market, prediction)
+            ),
+          },
+        ],
+      ],
+    });
+
+    return {
+      to: easAddress,
+      data: calldata,
+      value: '0',
+      chainId,
+      description: `Attest ${attestations.length} predictions for markets ${attestations.map(a => a.market.marketId).join(', ')}`,
+    };
+  } catch (error) {
+    elizaLogger.error('Error building multi-attestation calldata:');
+    console.error(error);
+    return null;
+  }
+}
+
+export interface DecodedAttestation {
+  marketAddress: string;
+  marketId: string;
+  questionId: string;
+  prediction: string; // raw uint160 sqrtPriceX96
+  probability: number;
+  comment: string;
+}
+
+const ATTEST_SELECTOR = toFunctionSelector(EAS_ABI[0]);
+
+/**
+ * Decode the attestation `data` bytes for SCHEMA_ID.
+ */
+export function decodeAttestationData(data: Hex): DecodedAttestation {
+  const [marketAddress, marketId, questionId, prediction, comment] =
+    decodeAbiParameters(SCHEMA_PARAMETERS, data);
+
+  return {
+    marketAddress,
+    marketId: marketId.toString(),
+    questionId,
+    prediction: prediction.toString(),
+    probability: sqrtPriceX96ToProbability(prediction),
+    comment,
+  };
+}
+
+/**
+ * Decode raw EAS `attest` calldata built for the given schema UID.
+ */
+export function decodeAttestationCalldata(
+  calldata: Hex,
+  schemaId: string = SCHEMA_ID
+): DecodedAttestation {
+  const { functionName, args } = decodeFunctionData({
+    abi: EAS_ABI,
+    data: calldata,
+  });
+  if (functionName !== 'attest') {
+    throw new Error(`Unsupported EAS function ${functionName}`);
+  }
+
+  const [request] = args;
+  if (request.schema.toLowerCase() !== schemaId.toLowerCase()) {
+    throw new Error(
+      `Attestation uses schema ${request.schema}, expected ${schemaId}`
+    );
+  }
+
+  return decodeAttestationData(request.data.data);
+}
+
+/**
+ * Decode EAS `multiAttest` calldata built for the given schema UID, in the
+ * order the attestations will be made.
+ */
+export function decodeMultiAttestationCalldata(
+  calldata: Hex,
+  schemaId: string = SCHEMA_ID
+): DecodedAttestation[] {
+  const { functionName, args } = decodeFunctionData({
+    abi: EAS_ABI,
+    data: calldata,
+  });
+  if (functionName !== 'multiAttest') {
+    throw new Error(`Unsupported EAS function ${functionName}`);
+  }
+
+  const [multiRequests] = args;
+  return multiRequests.flatMap(request => {
+    if (request.schema.toLowerCase() !== schemaId.toLowerCase()) {
+      throw new Error(
+        `Attestation uses schema ${request.schema}, expected ${schemaId}`
+      );
+    }
+    return request.data.map(entry => decodeAttestationData(entry.data));
+  });
+}
+
+/**
+ * Decode either raw `attest` calldata or the attestation `data` bytes.
+ */
+export function decodeAttestation(
+  input: Hex,
+  schemaId: string = SCHEMA_ID
+): DecodedAttestation {
+  return input.toLowerCase().startsWith(ATTEST_SELECTOR)
+    ? decodeAttestationCalldata(input, schemaId)
+    : decodeAttestationData(input);
+}
+
+/**
+ * Find the UIDs of the attestations created by a transaction from the EAS
+ * `Attested` events in its receipt logs, in the order they were made.
+ */
+export function extractAttestationUids(
+  logs: { address: string; data: Hex; topics: Hex[] }[],
+  easAddress: string
+): string[] {
+  const uids: string[] = [];
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== easAddress.toLowerCase()) continue;
+    try {
+      const event = decodeEventLog({
+        abi: ATTESTED_EVENT_ABI,
+        data: log.data,
+        topics: log.topics as [Hex, ...Hex[]],
+      });
+      uids.push(event.args.uid);
+    } catch {
+      // Some other EAS event
+    }
+  }
+  return uids;
+}
@@ -0,0 +1,103 @@
+/**
+ * Post-processing applied to a model's probability before it is attested.
+ * Probabilities are on a 0-100 scale, like the market's currentPrice.
+ */
+
+export interface AdjustmentSettings {
+  marketWeight: number; // 0-1, share of the market price blended into the forecast
+  extremizeFactor: number; // log-odds multiplier: >1 extremizes, <1 shrinks toward 50%
+  minProbability: number;
+  maxProbability: number;
+}
+
+// Leaves the model's probability untouched
+export const DEFAULT_ADJUSTMENT_SETTINGS: AdjustmentSettings = {
+  marketWeight: 0,
+  extremizeFactor: 1,
+  minProbability: 0,
+  maxProbability: 100,
+};
+
+/**
+ * What was done to a forecast, recorded with the attestation so the raw model
+ * output can be compared with what went on-chain.
+ */
+export interface ProbabilityAdjustment extends AdjustmentSettings {
+  modelProbability: number;
+  marketPrice: number | null;
+}
+
+export interface AdjustedProbability {
+  probability: number;
+  adjustment: ProbabilityAdjustment;
+}
+
+export function validateAdjustmentSettings(settings: AdjustmentSettings): void {
+  const { marketWeight, extremizeFactor, minProbability, maxProbability } =
+    settings;
+  if (!(marketWeight >= 0 && marketWeight <= 1)) {
+    throw new Error(
+      `[ProbabilityAdjustment] marketWeight must be between 0 and 1, got ${marketWeight}`
+    );
+  }
+  if (!(extremizeFactor > 0)) {
+    throw new Error(
+      `[ProbabilityAdjustment] extremizeFactor must be positive, got ${extremizeFactor}`
+    );
+  }
+  if (
+    !(minProbability >= 0 && minProbability <= maxProbability) ||
+    !(maxProbability <= 100)
+  ) {
+    throw new Error(
+      `[ProbabilityAdjustment] Probability bounds must satisfy 0 <= min <= max <= 100, got [${minProbability}, ${maxProbability}]`
+    );
+  }
+}
+
+function extremize(probability: number, factor: number): number {
+  if (factor === 1 || probability <= 0 || probability >= 100) {
+    return probability;
+  }
+  const p = probability / 100;
+  const logOdds = Math.log(p / (1 - p)) * factor;
+  return 100 / (1 + Math.exp(-logOdds));
+}
+
+/**
+ * Blend the model's probability with the market price, extremize or shrink
+ * the blend in log-odds space, then clamp it to the configured bounds.
+ * Without a market price the blend is skipped and recorded with weight 0.
+ */
+export function adjustProbability(
+  modelProbability: number,
+  marketPrice: number | null | undefined,
+  settings: AdjustmentSettings = DEFAULT_ADJUSTMENT_SETTINGS
+): AdjustedProbability {
+  const price = marketPrice ?? null;
+  const marketWeight = price === null ? 0 : settings.marketWeight;
+
+  const blended =
+    price === null
+      ? modelProbability
+      : (1 - marketWeight) * modelProbability + marketWeight * price;
+  const clamped = Math.min(
+    settings.maxProbability,
+    Math.max(
+      settings.minProbability,
+      extremize(blended, settings.extremizeFactor)
+    )
+  );
+
+  return {
+    probability: Math.round(clamped * 10) / 10,
+    adjustment: {
+      modelProbability,
+      marketPrice: price,
+      marketWeight,
+      extremizeFactor: settings.extremizeFactor,
+      minProbability: settings.minProbability,
+      maxProbability: settings.maxProbability,
+    },
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Forecast scoring for resolved markets.
+ * Probabilities and outcomes are both expressed on a 0-1 scale; outcomes are
+ * usually 0 or 1 but scalar settlements in between are scored the same way.
+ */
+
+export interface ScoredForecast {
+  probability: number; // forecast probability of YES, 0-1
+  outcome: number; // resolved value of YES, 0-1
+}
+
+export interface CalibrationBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  meanForecast: number | null;
+  observedFrequency: number | null;
+}
+
+export interface AccuracyReport {
+  resolvedCount: number;
+  brierScore: number | null;
+  logLoss: number | null;
+  calibration: CalibrationBucket[];
+}
+
+// Keeps log loss finite for forecasts of exactly 0 or 1
+const LOG_LOSS_EPSILON = 1e-15;
+
+export function brierScore(forecasts: ScoredForecast[]): number | null {
+  if (forecasts.length === 0) return null;
+  const total = forecasts.reduce(
+    (sum, { probability, outcome }) => sum + (probability - outcome) ** 2,
+    0
+  );
+  return total / forecasts.length;
+}
+
+export function logLoss(forecasts: ScoredForecast[]): number | null {
+  if (forecasts.length === 0) return null;
+  const total = forecasts.reduce((sum, { probability, outcome }) => {
+    const p = Math.min(
+      1 - LOG_LOSS_EPSILON,
+      Math.max(LOG_LOSS_EPSILON, probability)
+    );
+    return sum - (outcome * Math.log(p) + (1 - outcome) * Math.log(1 - p));
+  }, 0);
+  return total / forecasts.length;
+}
+
+/**
+ * Group forecasts into equal-width probability buckets and compare the mean
+ * forecast in each bucket with how often YES actually happened.
+ */
+export function calibrationBuckets(
+  forecasts: ScoredForecast[],
+  bucketCount: number = 10
+): CalibrationBucket[] {
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    lower: i / bucketCount,
+    upper: (i + 1) / bucketCount,
+    forecastSum: 0,
+    outcomeSum: 0,
+    count: 0,
+  }));
+
+  for (const { probability, outcome } of forecasts) {
+    const index = Math.min(
+      bucketCount - 1,
+      Math.max(0, Math.floor(probability * bucketCount))
+    );
+    buckets[index].forecastSum += probability;
+    buckets[index].outcomeSum += outcome;
+    buckets[index].count += 1;
+  }
+
+  return buckets.map(({ lower, upper, forecastSum, outcomeSum, count }) => ({
+    lower,
+    upper,
+    count,
+    meanForecast: count > 0 ? forecastSum / count : null,
+    observedFrequency: count > 0 ? outcomeSum / count : null,
+  }));
+}
+
+export function scoreForecasts(
+  forecasts: ScoredForecast[],
+  bucketCount: number = 10
+): AccuracyReport {
+  return {
+    resolvedCount: forecasts.length,
+    brierScore: brierScore(forecasts),
+    logLoss: logLoss(forecasts),
+    calibration: calibrationBuckets(forecasts, bucketCount),
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Exact conversion between attestation probabilities (0-100) and the
+ * Uniswap-style sqrtPriceX96 value stored in the `prediction` field.
+ *
+ *   sqrtPriceX96 = floor(sqrt(probability / 100) * 2^96)
+ *
+ * All arithmetic is done with bigints so encoding and decoding round-trip
+ * without floating point drift.
+ */
+
+export const Q96 = 1n << 96n;
+const Q192 = Q96 * Q96;
+
+// Probabilities are carried with 16 decimal places (price with 18)
+const PRICE_SCALE = 10n ** 18n;
+const PROBABILITY_DECIMALS = 1e16;
+
+/**
+ * Floor integer square root using Newton's method.
+ */
+export function isqrt(value: bigint): bigint {
+  if (value < 0n) {
+    throw new Error(`Cannot take square root of negative value ${value}`);
+  }
+  if (value < 2n) {
+    return value;
+  }
+
+  let x = 1n << ((BigInt(value.toString(2).length) + 1n) / 2n);
+  while (true) {
+    const next = (x + value / x) >> 1n;
+    if (next >= x) {
+      return x;
+    }
+    x = next;
+  }
+}
+
+/**
+ * Encode a probability percentage (0-100) as sqrtPriceX96.
+ */
+export function probabilityToSqrtPriceX96(probability: number): bigint {
+  if (!Number.isFinite(probability) || probability < 0 || probability > 100) {
+    throw new Error(
+      `Probability must be a number between 0 and 100, got ${probability}`
+    );
+  }
+
+  // price scaled by 1e18, i.e. probability / 100 * 1e18
+  const scaledPrice = BigInt(Math.round(probability * PROBABILITY_DECIMALS));
+  return isqrt((scaledPrice * Q192) / PRICE_SCALE);
+}
+
+/**
+ * Decode a sqrtPriceX96 value back into a probability percentage (0-100).
+ * Inverse of `probabilityToSqrtPriceX96` at 16 decimal places.
+ */
+export function sqrtPriceX96ToProbability(
+  sqrtPriceX96: bigint | string | number
+): number {
+  const value = BigInt(sqrtPriceX96);
+  if (value < 0n || value > Q96) {
+    throw new Error(
+      `sqrtPriceX96 ${value} is outside the valid range for a probability`
+    );
+  }
+
+  // Round to the nearest unit of the 1e18 price scale. The floor in the
+  // square root loses less than one unit, so this recovers the exact input.
+  const scaledPrice = (value * value * PRICE_SCALE + Q192 / 2n) / Q192;
+  return Number(scaledPrice) / PROBABILITY_DECIMALS;
+}